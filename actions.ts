@@ -0,0 +1,151 @@
+import type { Page } from "puppeteer";
+
+export const ACTION_TYPES = [
+  "click",
+  "type",
+  "hover",
+  "scroll",
+  "select",
+  "waitForSelector",
+  "waitForNetworkIdle",
+  "wait",
+];
+
+export const SELECTOR_ACTIONS = [
+  "click",
+  "type",
+  "hover",
+  "select",
+  "waitForSelector",
+];
+
+export const DEFAULT_ACTION_TIMEOUT = 5000;
+export const MAX_ACTION_TIMEOUT = 30000;
+export const MAX_ACTIONS = 20;
+
+export interface PageAction {
+  type: string;
+  selector?: string;
+  text?: string;
+  value?: string | string[];
+  x?: number;
+  y?: number;
+  duration?: number;
+  timeout?: number;
+  optional?: boolean;
+}
+
+export interface ActionResult {
+  step: number;
+  type: string;
+  selector?: string;
+  success: boolean;
+  duration: number;
+  error?: string;
+}
+
+export class ActionError extends Error {
+  constructor(public results: ActionResult[]) {
+    const failed = results[results.length - 1];
+    super(
+      `Step ${failed.step} (${failed.type}${failed.selector ? ` '${failed.selector}'` : ""}) failed: ${failed.error}`,
+    );
+    this.name = "ActionError";
+  }
+}
+
+async function runAction(page: Page, action: PageAction): Promise<void> {
+  const timeout = action.timeout ?? DEFAULT_ACTION_TIMEOUT;
+  const selector = action.selector || "";
+
+  switch (action.type) {
+    case "click":
+      await page.waitForSelector(selector, { visible: true, timeout });
+      await page.click(selector);
+      return;
+
+    case "type":
+      await page.waitForSelector(selector, { visible: true, timeout });
+      await page.type(selector, action.text || "");
+      return;
+
+    case "hover":
+      await page.waitForSelector(selector, { visible: true, timeout });
+      await page.hover(selector);
+      return;
+
+    case "select": {
+      await page.waitForSelector(selector, { timeout });
+      const values = Array.isArray(action.value)
+        ? action.value
+        : [action.value || ""];
+      await page.select(selector, ...values);
+      return;
+    }
+
+    case "scroll":
+      if (selector) {
+        const element = await page.waitForSelector(selector, { timeout });
+        await element?.scrollIntoView();
+        await element?.dispose();
+      } else {
+        await page.evaluate(
+          (x, y) => window.scrollTo(x, y),
+          action.x || 0,
+          action.y || 0,
+        );
+      }
+      return;
+
+    case "waitForSelector":
+      await page.waitForSelector(selector, { timeout });
+      return;
+
+    case "waitForNetworkIdle":
+      await page.waitForNetworkIdle({ idleTime: 500, timeout });
+      return;
+
+    case "wait":
+      await new Promise((resolve) => setTimeout(resolve, action.duration || 0));
+      return;
+
+    default:
+      throw new Error(`Unknown action '${action.type}'`);
+  }
+}
+
+// Runs steps in order. A failing step throws an ActionError carrying the
+// results so far, unless it is marked optional.
+export async function runActions(
+  page: Page,
+  actions: PageAction[],
+): Promise<ActionResult[]> {
+  const results: ActionResult[] = [];
+
+  for (const [index, action] of actions.entries()) {
+    const start = Date.now();
+    const result: ActionResult = {
+      step: index + 1,
+      type: action.type,
+      selector: action.selector,
+      success: true,
+      duration: 0,
+    };
+
+    try {
+      await runAction(page, action);
+    } catch (error) {
+      result.success = false;
+      result.error = error instanceof Error ? error.message : "Unknown error";
+    }
+
+    result.duration = Date.now() - start;
+    results.push(result);
+
+    if (!result.success && !action.optional) {
+      throw new ActionError(results);
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,164 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  setSystemTime,
+  test,
+} from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createKeyStore, getRequestApiKey, isOriginAllowed } from "./auth";
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "auth-test-"));
+});
+
+afterEach(() => {
+  setSystemTime();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function createStore(keys: object[]) {
+  const file = join(dir, "api-keys.json");
+  writeFileSync(file, JSON.stringify(keys));
+  return createKeyStore({ file, usageFile: join(dir, "api-usage.json") });
+}
+
+describe("consume", () => {
+  test("resets the hourly window after an hour", () => {
+    setSystemTime(new Date("2026-03-10T12:00:00Z"));
+    const store = createStore([{ key: "k", hourlyLimit: 2 }]);
+    const key = store.find("k")!;
+
+    expect(store.consume(key).remaining).toBe(1);
+    expect(store.consume(key).remaining).toBe(0);
+    expect(store.consume(key).allowed).toBe(false);
+
+    setSystemTime(new Date("2026-03-10T13:00:01Z"));
+    expect(store.consume(key)).toMatchObject({ allowed: true, remaining: 1 });
+  });
+
+  test("resets the monthly window on the 1st (UTC)", () => {
+    setSystemTime(new Date("2026-01-31T23:00:00Z"));
+    const store = createStore([{ key: "k", monthlyLimit: 1 }]);
+    const key = store.find("k")!;
+
+    expect(store.consume(key).allowed).toBe(true);
+    const refused = store.consume(key);
+    expect(refused.allowed).toBe(false);
+    expect(refused.resetAt).toBe(Date.parse("2026-02-01T00:00:00Z"));
+
+    setSystemTime(new Date("2026-02-01T00:00:01Z"));
+    expect(store.consume(key).allowed).toBe(true);
+  });
+
+  test("reports the tightest limit in the headers", () => {
+    setSystemTime(new Date("2026-03-10T12:00:00Z"));
+    const store = createStore([{ key: "k", hourlyLimit: 10, monthlyLimit: 3 }]);
+    const key = store.find("k")!;
+
+    expect(store.consume(key)).toEqual({
+      allowed: true,
+      limit: 3,
+      remaining: 2,
+      resetAt: Date.parse("2026-04-01T00:00:00Z"),
+    });
+  });
+
+  test("follows whichever window has less left", () => {
+    setSystemTime(new Date("2026-03-10T12:00:00Z"));
+    const store = createStore([{ key: "k", hourlyLimit: 3, monthlyLimit: 5 }]);
+    const key = store.find("k")!;
+
+    store.consume(key);
+    store.consume(key);
+    expect(store.consume(key)).toMatchObject({ limit: 3, remaining: 0 });
+
+    // A new hour, but only 1 left this month
+    setSystemTime(new Date("2026-03-10T13:00:01Z"));
+    expect(store.consume(key)).toMatchObject({
+      limit: 5,
+      remaining: 1,
+      resetAt: Date.parse("2026-04-01T00:00:00Z"),
+    });
+  });
+
+  test("refuses a cost the remaining quota cannot cover", () => {
+    const store = createStore([{ key: "k", hourlyLimit: 5 }]);
+    const key = store.find("k")!;
+
+    expect(store.consume(key, 3).remaining).toBe(2);
+    expect(store.consume(key, 3)).toMatchObject({
+      allowed: false,
+      remaining: 2,
+    });
+    expect(store.consume(key, 2)).toMatchObject({
+      allowed: true,
+      remaining: 0,
+    });
+  });
+
+  test("keys without limits are unlimited", () => {
+    const store = createStore([{ key: "k" }]);
+    const key = store.find("k")!;
+    expect(store.consume(key, 1000)).toMatchObject({
+      allowed: true,
+      remaining: Infinity,
+    });
+  });
+});
+
+describe("isOriginAllowed", () => {
+  test("allows anything without restrictions", () => {
+    expect(isOriginAllowed(null, [])).toBe(true);
+  });
+
+  test("matches exact origins and hostnames", () => {
+    const allowed = ["https://app.example.com", "example.org"];
+    expect(isOriginAllowed("https://app.example.com", allowed)).toBe(true);
+    expect(isOriginAllowed("http://app.example.com", allowed)).toBe(false);
+    expect(isOriginAllowed("http://example.org:8080", allowed)).toBe(true);
+    expect(isOriginAllowed(null, allowed)).toBe(false);
+  });
+
+  test("matches subdomains of a wildcard, but not the domain itself", () => {
+    const allowed = ["*.example.com"];
+    expect(isOriginAllowed("https://a.example.com", allowed)).toBe(true);
+    expect(isOriginAllowed("https://a.b.example.com", allowed)).toBe(true);
+    expect(isOriginAllowed("https://example.com", allowed)).toBe(false);
+    expect(isOriginAllowed("https://evilexample.com", allowed)).toBe(false);
+    expect(isOriginAllowed("https://example.com.evil.net", allowed)).toBe(
+      false,
+    );
+  });
+
+  test("a bare * allows any origin", () => {
+    expect(isOriginAllowed("https://anything.test", ["*"])).toBe(true);
+  });
+});
+
+describe("getRequestApiKey", () => {
+  const url = new URL("http://localhost/api/screenshot?apiKey=query");
+
+  test("prefers the header, then a bearer token, then the query", () => {
+    expect(
+      getRequestApiKey(
+        new Request(url, {
+          headers: { "X-API-Key": "header", Authorization: "Bearer bearer" },
+        }),
+        url,
+      ),
+    ).toBe("header");
+    expect(
+      getRequestApiKey(
+        new Request(url, { headers: { Authorization: "Bearer bearer" } }),
+        url,
+      ),
+    ).toBe("bearer");
+    expect(getRequestApiKey(new Request(url), url)).toBe("query");
+  });
+});
@@ -0,0 +1,221 @@
+import { createHash } from "crypto";
+import { existsSync, readFileSync, statSync, writeFileSync } from "fs";
+import type { RateLimitResult } from "./security";
+
+export interface ApiKey {
+  key: string;
+  name: string;
+  enabled: boolean;
+  hourlyLimit: number;
+  monthlyLimit: number;
+  allowedOrigins: string[];
+  // Allows listing and deleting cached captures
+  manageCache: boolean;
+}
+
+interface UsageWindow {
+  count: number;
+  resetAt: number;
+}
+
+interface KeyUsage {
+  hour: UsageWindow;
+  month: UsageWindow;
+}
+
+export interface KeyStoreOptions {
+  file: string;
+  usageFile: string;
+}
+
+function startOfNextMonth(now: number): number {
+  const date = new Date(now);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+}
+
+// Stable identifier for a key that can be stored without exposing it
+export function getKeyId(key: string): string {
+  return createHash("sha256").update(key).digest("hex").slice(0, 16);
+}
+
+export function getRequestApiKey(req: Request, url: URL): string | null {
+  const header = req.headers.get("x-api-key");
+  if (header) return header;
+
+  const authorization = req.headers.get("authorization");
+  if (authorization?.toLowerCase().startsWith("bearer ")) {
+    return authorization.slice(7).trim();
+  }
+
+  return url.searchParams.get("apiKey");
+}
+
+export function getRequestOrigin(req: Request): string | null {
+  const origin = req.headers.get("origin");
+  if (origin) return origin;
+
+  const referer = req.headers.get("referer");
+  if (!referer) return null;
+  try {
+    return new URL(referer).origin;
+  } catch {
+    return null;
+  }
+}
+
+export function isOriginAllowed(
+  origin: string | null,
+  allowedOrigins: string[],
+): boolean {
+  if (allowedOrigins.length === 0) return true;
+  if (!origin) return false;
+
+  let hostname: string;
+  try {
+    hostname = new URL(origin).hostname;
+  } catch {
+    return false;
+  }
+
+  return allowedOrigins.some((allowed) => {
+    if (allowed === "*") return true;
+    if (allowed.startsWith("*.")) {
+      return hostname.endsWith(allowed.slice(1));
+    }
+    return allowed === origin || allowed === hostname;
+  });
+}
+
+export function createKeyStore(options: KeyStoreOptions) {
+  let keys = new Map<string, ApiKey>();
+  let loadedMtime = 0;
+  let usage = new Map<string, KeyUsage>();
+  let dirty = false;
+
+  function reload() {
+    if (!existsSync(options.file)) {
+      keys = new Map();
+      loadedMtime = 0;
+      return;
+    }
+
+    const mtime = statSync(options.file).mtimeMs;
+    if (mtime === loadedMtime) return;
+
+    loadedMtime = mtime;
+
+    let entries: Partial<ApiKey>[];
+    try {
+      entries = JSON.parse(readFileSync(options.file, "utf8"));
+    } catch {
+      // Keep the previously loaded keys until the file is fixed
+      return;
+    }
+
+    keys = new Map(
+      entries
+        .filter((entry) => typeof entry.key === "string" && entry.key)
+        .map((entry) => [
+          entry.key!,
+          {
+            key: entry.key!,
+            name: entry.name || entry.key!.slice(0, 8),
+            enabled: entry.enabled !== false,
+            hourlyLimit: entry.hourlyLimit ?? 0,
+            monthlyLimit: entry.monthlyLimit ?? 0,
+            allowedOrigins: entry.allowedOrigins || [],
+            manageCache: entry.manageCache === true,
+          },
+        ]),
+    );
+  }
+
+  function loadUsage() {
+    if (!existsSync(options.usageFile)) return;
+    try {
+      const saved = JSON.parse(readFileSync(options.usageFile, "utf8"));
+      usage = new Map(Object.entries(saved as Record<string, KeyUsage>));
+    } catch {
+      usage = new Map();
+    }
+  }
+
+  function flush() {
+    if (!dirty) return;
+    writeFileSync(
+      options.usageFile,
+      JSON.stringify(Object.fromEntries(usage), null, 2),
+    );
+    dirty = false;
+  }
+
+  function find(key: string): ApiKey | null {
+    reload();
+    return keys.get(key) || null;
+  }
+
+  // cost is the number of captures the request makes, e.g. batch items
+  function consume(apiKey: ApiKey, cost = 1): RateLimitResult {
+    const now = Date.now();
+    let entry = usage.get(apiKey.key);
+    if (!entry) {
+      entry = {
+        hour: { count: 0, resetAt: now + 3600000 },
+        month: { count: 0, resetAt: startOfNextMonth(now) },
+      };
+      usage.set(apiKey.key, entry);
+    }
+    if (now > entry.hour.resetAt) {
+      entry.hour = { count: 0, resetAt: now + 3600000 };
+    }
+    if (now > entry.month.resetAt) {
+      entry.month = { count: 0, resetAt: startOfNextMonth(now) };
+    }
+
+    const windows = [
+      { window: entry.hour, limit: apiKey.hourlyLimit },
+      { window: entry.month, limit: apiKey.monthlyLimit },
+    ].filter(({ limit }) => limit > 0);
+
+    const exhausted = windows.find(
+      ({ window, limit }) => window.count + cost > limit,
+    );
+    if (exhausted) {
+      return {
+        allowed: false,
+        limit: exhausted.limit,
+        remaining: Math.max(exhausted.limit - exhausted.window.count, 0),
+        resetAt: exhausted.window.resetAt,
+      };
+    }
+
+    entry.hour.count += cost;
+    entry.month.count += cost;
+    dirty = true;
+
+    if (windows.length === 0) {
+      return {
+        allowed: true,
+        limit: 0,
+        remaining: Infinity,
+        resetAt: entry.hour.resetAt,
+      };
+    }
+
+    const tightest = windows.reduce((a, b) =>
+      b.limit - b.window.count < a.limit - a.window.count ? b : a,
+    );
+    return {
+      allowed: true,
+      limit: tightest.limit,
+      remaining: tightest.limit - tightest.window.count,
+      resetAt: tightest.window.resetAt,
+    };
+  }
+
+  loadUsage();
+
+  return { find, consume, flush };
+}
+
+export type KeyStore = ReturnType<typeof createKeyStore>;
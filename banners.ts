@@ -0,0 +1,68 @@
+import { existsSync, readFileSync } from "fs";
+
+// Consent management platforms and common hand-rolled cookie notices.
+// Keep entries specific enough that they never match page content.
+export const COOKIE_BANNER_SELECTORS = [
+  // OneTrust
+  "#onetrust-banner-sdk",
+  "#onetrust-consent-sdk",
+  // Cookiebot
+  "#CybotCookiebotDialog",
+  "#CybotCookiebotDialogBodyUnderlay",
+  // Quantcast Choice
+  ".qc-cmp2-container",
+  // TrustArc
+  "#truste-consent-track",
+  ".truste_box_overlay",
+  ".truste_overlay",
+  // Didomi
+  "#didomi-host",
+  // Usercentrics
+  "#usercentrics-root",
+  "#usercentrics-cmp-ui",
+  // Google Funding Choices
+  ".fc-consent-root",
+  // Sourcepoint
+  "[id^='sp_message_container_']",
+  // Osano
+  ".osano-cm-window",
+  // Iubenda
+  "#iubenda-cs-banner",
+  // Complianz
+  "#cmplz-cookiebanner-container",
+  // CookieYes / Cookie Law Info
+  "#cookie-law-info-bar",
+  ".cky-consent-container",
+  ".cky-overlay",
+  // Cookie Consent (Osano open source)
+  ".cc-window",
+  ".cc-banner",
+  // Borlabs
+  "#BorlabsCookieBox",
+  // Termly
+  "#termly-code-snippet-support",
+  // Klaro
+  ".klaro .cookie-notice",
+  // Generic patterns
+  "#cookie-banner",
+  "#cookie-notice",
+  "#cookie-consent",
+  "#cookieConsent",
+  ".cookie-banner",
+  ".cookie-notice",
+  ".cookie-consent",
+  "[aria-label='cookieconsent']",
+];
+
+export function loadCookieBannerSelectors(extraFile?: string): string[] {
+  if (!extraFile || !existsSync(extraFile)) {
+    return COOKIE_BANNER_SELECTORS;
+  }
+
+  const extra = readFileSync(extraFile, "utf8")
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith("//"));
+
+  return [...new Set([...COOKIE_BANNER_SELECTORS, ...extra])];
+}
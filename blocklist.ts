@@ -0,0 +1,95 @@
+import { existsSync, readFileSync } from "fs";
+
+export const BLOCKABLE_RESOURCE_TYPES = [
+  "font",
+  "media",
+  "image",
+  "script",
+  "stylesheet",
+];
+
+// Used when no BLOCKLIST_FILE is configured
+const DEFAULT_BLOCKED_DOMAINS = [
+  "doubleclick.net",
+  "googlesyndication.com",
+  "googleadservices.com",
+  "google-analytics.com",
+  "googletagmanager.com",
+  "googletagservices.com",
+  "adservice.google.com",
+  "amazon-adsystem.com",
+  "adnxs.com",
+  "criteo.com",
+  "criteo.net",
+  "taboola.com",
+  "outbrain.com",
+  "pubmatic.com",
+  "rubiconproject.com",
+  "openx.net",
+  "moatads.com",
+  "scorecardresearch.com",
+  "quantserve.com",
+  "hotjar.com",
+  "mixpanel.com",
+  "segment.io",
+  "cdn.segment.com",
+  "connect.facebook.net",
+  "ads-twitter.com",
+  "analytics.tiktok.com",
+  "bat.bing.com",
+  "clarity.ms",
+];
+
+const HOSTS_ADDRESSES = new Set(["0.0.0.0", "127.0.0.1", "::", "::1"]);
+
+// Accepts hosts files ("0.0.0.0 ads.example.com") and EasyList-style lists
+// ("||ads.example.com^"). Only whole-domain rules are used.
+export function parseBlocklist(content: string): Set<string> {
+  const domains = new Set<string>();
+
+  for (const rawLine of content.split("\n")) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#") || line.startsWith("!")) continue;
+    if (line.startsWith("[") || line.startsWith("@@") || line.includes("##")) {
+      continue;
+    }
+
+    let domain: string | null = null;
+    const parts = line.split(/\s+/);
+
+    if (parts.length >= 2 && HOSTS_ADDRESSES.has(parts[0])) {
+      domain = parts[1];
+    } else if (line.startsWith("||")) {
+      const match = line.match(/^\|\|([a-z0-9.-]+)\^(\$.*)?$/i);
+      if (match && !match[2]?.includes("domain=")) {
+        domain = match[1];
+      }
+    } else if (parts.length === 1 && /^[a-z0-9.-]+\.[a-z]{2,}$/i.test(line)) {
+      domain = line;
+    }
+
+    if (domain && domain !== "localhost" && !domain.startsWith("#")) {
+      domains.add(domain.toLowerCase().replace(/\.$/, ""));
+    }
+  }
+
+  return domains;
+}
+
+export function loadBlocklist(file?: string): Set<string> {
+  if (!file || !existsSync(file)) {
+    return new Set(DEFAULT_BLOCKED_DOMAINS);
+  }
+  return parseBlocklist(readFileSync(file, "utf8"));
+}
+
+export function isBlockedHost(hostname: string, domains: Set<string>): boolean {
+  let candidate = hostname.toLowerCase();
+  while (candidate) {
+    if (domains.has(candidate)) return true;
+    const dot = candidate.indexOf(".");
+    if (dot === -1) return false;
+    candidate = candidate.slice(dot + 1);
+  }
+  return false;
+}
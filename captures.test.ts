@@ -0,0 +1,114 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { existsSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { CAPTURE_RECORD_SUFFIX, createCaptureIndex } from "./captures";
+import { createMemoryStorage } from "./storage";
+
+function entry(filename: string, url = "https://example.com/") {
+  return { filename, url, options: {}, metadata: null, size: 1 };
+}
+
+describe("isFresh", () => {
+  test("records without a ttl never expire", async () => {
+    const index = createCaptureIndex({ storage: createMemoryStorage() });
+    await index.record(entry("a.webp"));
+    expect(await index.isFresh("a.webp", undefined, Date.now() + 1e12)).toBe(
+      true,
+    );
+  });
+
+  test("records expire after their ttl", async () => {
+    const index = createCaptureIndex({ storage: createMemoryStorage() });
+    const now = Date.now();
+    await index.record(entry("a.webp"), 60);
+    expect(await index.isFresh("a.webp", undefined, now + 30_000)).toBe(true);
+    expect(await index.isFresh("a.webp", undefined, now + 61_000)).toBe(false);
+  });
+
+  test("maxAge bounds the accepted age", async () => {
+    const index = createCaptureIndex({ storage: createMemoryStorage() });
+    const now = Date.now();
+    await index.record(entry("a.webp"));
+    expect(await index.isFresh("a.webp", 60, now + 30_000)).toBe(true);
+    expect(await index.isFresh("a.webp", 60, now + 61_000)).toBe(false);
+  });
+
+  test("an expired ttl wins over a longer maxAge", async () => {
+    const index = createCaptureIndex({ storage: createMemoryStorage() });
+    const now = Date.now();
+    await index.record(entry("a.webp"), 60);
+    expect(await index.isFresh("a.webp", 3600, now + 61_000)).toBe(false);
+  });
+
+  test("unindexed files only pass without a maxAge", async () => {
+    const index = createCaptureIndex({ storage: createMemoryStorage() });
+    expect(await index.isFresh("unknown.webp")).toBe(true);
+    expect(await index.isFresh("unknown.webp", 60)).toBe(false);
+  });
+});
+
+describe("createCaptureIndex", () => {
+  test("lists by URL, prefix and host", async () => {
+    const index = createCaptureIndex({ storage: createMemoryStorage() });
+    await index.record(entry("a.webp", "https://Example.com"));
+    await index.record(entry("b.webp", "https://example.com/blog/post"));
+    await index.record(entry("c.webp", "https://other.org/"));
+
+    const names = async (filter: Parameters<typeof index.list>[0]) =>
+      (await index.list(filter)).map((record) => record.filename).sort();
+    expect(await names({ url: "https://example.com/" })).toEqual(["a.webp"]);
+    expect(await names({ prefix: "https://EXAMPLE.com/blog" })).toEqual([
+      "b.webp",
+    ]);
+    expect(await names({ host: "EXAMPLE.com" })).toEqual(["a.webp", "b.webp"]);
+  });
+
+  test("stores records next to captures, shared between instances", async () => {
+    const storage = createMemoryStorage();
+    const index = createCaptureIndex({ storage });
+    await index.record(entry("a.webp"), 60);
+    await index.record(entry("b.webp"));
+    expect(await storage.exists("a.webp" + CAPTURE_RECORD_SUFFIX)).toBe(true);
+
+    // A second replica, or the same server after a restart
+    const other = createCaptureIndex({ storage });
+    expect((await other.get("a.webp"))?.expiresAt).toBe(
+      (await index.get("a.webp"))!.expiresAt,
+    );
+
+    await other.remove("b.webp");
+    expect((await index.list()).map((record) => record.filename)).toEqual([
+      "a.webp",
+    ]);
+  });
+});
+
+describe("importFile", () => {
+  let dir: string;
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("imports records of stored files once", async () => {
+    dir = mkdtempSync(join(tmpdir(), "captures-test-"));
+    const file = join(dir, "captures.json");
+    writeFileSync(
+      file,
+      JSON.stringify([
+        { ...entry("a.webp"), createdAt: new Date().toISOString() },
+        { ...entry("gone.webp"), createdAt: new Date().toISOString() },
+      ]),
+    );
+    const storage = createMemoryStorage();
+    await storage.put("a.webp", Buffer.from("a"), "image/webp");
+
+    const index = createCaptureIndex({ storage });
+    expect(await index.importFile(file)).toBe(1);
+    expect((await index.get("a.webp"))?.host).toBe("example.com");
+    expect(await index.get("gone.webp")).toBeNull();
+    expect(existsSync(file)).toBe(false);
+    expect(await index.importFile(file)).toBe(0);
+  });
+});
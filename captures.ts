@@ -0,0 +1,199 @@
+import { existsSync, readFileSync, renameSync } from "fs";
+import type { Storage } from "./storage";
+
+export interface CaptureRecord {
+  filename: string;
+  url: string;
+  host: string | null;
+  options: Record<string, unknown>;
+  metadata: unknown;
+  size: number;
+  createdAt: string;
+  // Set when the capture was made with a ttl
+  expiresAt: string | null;
+}
+
+// Selects records by exact URL (every variant of it), URL prefix or host
+export interface CaptureFilter {
+  url?: string;
+  prefix?: string;
+  host?: string;
+}
+
+// Each record is stored next to its capture in the storage backend, so
+// every replica sees the same index and it survives restarts
+export const CAPTURE_RECORD_SUFFIX = ".capture.json";
+
+export function isCaptureRecord(key: string): boolean {
+  return key.endsWith(CAPTURE_RECORD_SUFFIX);
+}
+
+// Trailing slashes and host case differ between requests for the same
+// page, so URLs are compared in their parsed form
+function normalizeUrl(url: string): string {
+  try {
+    return new URL(url).href;
+  } catch {
+    return url;
+  }
+}
+
+function getHost(url: string): string | null {
+  try {
+    return new URL(url).hostname || null;
+  } catch {
+    return null;
+  }
+}
+
+function matches(record: CaptureRecord, filter: CaptureFilter): boolean {
+  if (filter.url && normalizeUrl(record.url) !== normalizeUrl(filter.url)) {
+    return false;
+  }
+  if (
+    filter.prefix &&
+    !normalizeUrl(record.url).startsWith(normalizeUrl(filter.prefix))
+  ) {
+    return false;
+  }
+  if (filter.host && record.host !== filter.host.toLowerCase()) {
+    return false;
+  }
+  return true;
+}
+
+const RECORD_CACHE_MS = 60000;
+
+// Records written before hosts and expiry were tracked
+function normalizeRecord(record: CaptureRecord): CaptureRecord {
+  return {
+    ...record,
+    host: record.host ?? getHost(record.url),
+    expiresAt: record.expiresAt ?? null,
+  };
+}
+
+// Remembers where each cached file came from, so archives and listings can
+// describe files that are only known by name
+export function createCaptureIndex(options: { storage: Storage }) {
+  const { storage } = options;
+  // Parsed records and when they were read. Another replica may rewrite a
+  // record, so lookups re-read it after a minute and listings whenever the
+  // sidecar is newer.
+  const records = new Map<
+    string,
+    { record: CaptureRecord; loadedAt: number }
+  >();
+
+  async function write(record: CaptureRecord) {
+    await storage.put(
+      record.filename + CAPTURE_RECORD_SUFFIX,
+      Buffer.from(JSON.stringify(record)),
+      "application/json",
+    );
+    records.set(record.filename, { record, loadedAt: Date.now() });
+  }
+
+  async function read(filename: string): Promise<CaptureRecord | null> {
+    const data = await storage.get(filename + CAPTURE_RECORD_SUFFIX);
+    if (!data) {
+      records.delete(filename);
+      return null;
+    }
+    try {
+      const record = normalizeRecord(JSON.parse(data.toString("utf8")));
+      records.set(filename, { record, loadedAt: Date.now() });
+      return record;
+    } catch {
+      // A corrupt sidecar leaves the file unindexed
+      return null;
+    }
+  }
+
+  // ttl is in seconds; without one the record never expires. Called before
+  // the capture is stored, so a crash cannot leave a capture without its
+  // expiry.
+  async function record(
+    entry: Omit<CaptureRecord, "host" | "createdAt" | "expiresAt">,
+    ttl?: number,
+  ) {
+    const now = Date.now();
+    await write({
+      ...entry,
+      host: getHost(entry.url),
+      createdAt: new Date(now).toISOString(),
+      expiresAt: ttl ? new Date(now + ttl * 1000).toISOString() : null,
+    });
+  }
+
+  async function get(filename: string) {
+    const known = records.get(filename);
+    if (known && Date.now() - known.loadedAt < RECORD_CACHE_MS) {
+      return known.record;
+    }
+    return read(filename);
+  }
+
+  // Newest first
+  async function list(filter: CaptureFilter = {}) {
+    const found: CaptureRecord[] = [];
+    const seen = new Set<string>();
+    for (const object of await storage.list()) {
+      if (!isCaptureRecord(object.key)) continue;
+      const filename = object.key.slice(0, -CAPTURE_RECORD_SUFFIX.length);
+      seen.add(filename);
+      const known = records.get(filename);
+      const record =
+        known && known.loadedAt >= object.lastModified
+          ? known.record
+          : await read(filename);
+      if (record && matches(record, filter)) found.push(record);
+    }
+    // Records deleted by another replica
+    for (const filename of records.keys()) {
+      if (!seen.has(filename)) records.delete(filename);
+    }
+    return found.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  // Expired records are never fresh. maxAge (seconds) additionally bounds
+  // the age a caller accepts; files without a record have no known age, so
+  // they only pass when no maxAge is given.
+  async function isFresh(filename: string, maxAge?: number, now = Date.now()) {
+    const entry = await get(filename);
+    if (entry?.expiresAt && Date.parse(entry.expiresAt) <= now) return false;
+    if (maxAge === undefined) return true;
+    return !!entry && now - Date.parse(entry.createdAt) <= maxAge * 1000;
+  }
+
+  async function remove(filename: string) {
+    await storage.delete(filename + CAPTURE_RECORD_SUFFIX);
+    records.delete(filename);
+  }
+
+  // Indexes from before records were stored in the backend were a single
+  // JSON file; it is imported once and renamed so it is not read again
+  async function importFile(file: string): Promise<number> {
+    if (!existsSync(file)) return 0;
+    let saved: CaptureRecord[];
+    try {
+      saved = JSON.parse(readFileSync(file, "utf8"));
+    } catch {
+      return 0;
+    }
+
+    let imported = 0;
+    for (const record of saved) {
+      if (!(await storage.exists(record.filename))) continue;
+      if (await storage.exists(record.filename + CAPTURE_RECORD_SUFFIX)) {
+        continue;
+      }
+      await write(normalizeRecord(record));
+      imported++;
+    }
+    renameSync(file, `${file}.imported`);
+    return imported;
+  }
+
+  return { record, get, list, isFresh, remove, importFile };
+}
@@ -0,0 +1,57 @@
+import { KnownDevices, type Device } from "puppeteer";
+
+const ANDROID_CHROME_UA = (model: string) =>
+  `Mozilla/5.0 (Linux; Android 14; ${model}) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Mobile Safari/537.36`;
+
+// Newer devices that Puppeteer's built-in list does not include yet
+const EXTRA_DEVICES: Record<string, Device> = {
+  "Pixel 7": {
+    userAgent: ANDROID_CHROME_UA("Pixel 7"),
+    viewport: {
+      width: 412,
+      height: 915,
+      deviceScaleFactor: 2.625,
+      isMobile: true,
+      hasTouch: true,
+      isLandscape: false,
+    },
+  },
+  "Pixel 8": {
+    userAgent: ANDROID_CHROME_UA("Pixel 8"),
+    viewport: {
+      width: 412,
+      height: 915,
+      deviceScaleFactor: 2.625,
+      isMobile: true,
+      hasTouch: true,
+      isLandscape: false,
+    },
+  },
+  "Galaxy S23": {
+    userAgent: ANDROID_CHROME_UA("SM-S911B"),
+    viewport: {
+      width: 360,
+      height: 780,
+      deviceScaleFactor: 3,
+      isMobile: true,
+      hasTouch: true,
+      isLandscape: false,
+    },
+  },
+};
+
+const DEVICES = new Map<string, { name: string; device: Device }>(
+  Object.entries({ ...KnownDevices, ...EXTRA_DEVICES }).map(
+    ([name, device]) => [name.toLowerCase(), { name, device }],
+  ),
+);
+
+export function resolveDevice(
+  name: string,
+): { name: string; device: Device } | null {
+  return DEVICES.get(name.trim().toLowerCase()) || null;
+}
+
+export function listDevices(): string[] {
+  return [...DEVICES.values()].map(({ name }) => name);
+}
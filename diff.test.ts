@@ -0,0 +1,127 @@
+import { describe, expect, test } from "bun:test";
+import sharp from "sharp";
+import { diffImages, hammingDistance, perceptualHash } from "./diff";
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  color: string;
+}
+
+// A white PNG with solid boxes drawn on it
+async function image(width: number, height: number, boxes: Box[] = []) {
+  return sharp({
+    create: { width, height, channels: 3, background: "#ffffff" },
+  })
+    .composite(
+      await Promise.all(
+        boxes.map(async (box) => ({
+          input: await sharp({
+            create: {
+              width: box.width,
+              height: box.height,
+              channels: 3,
+              background: box.color,
+            },
+          })
+            .png()
+            .toBuffer(),
+          left: box.x,
+          top: box.y,
+        })),
+      ),
+    )
+    .png()
+    .toBuffer();
+}
+
+describe("diffImages", () => {
+  test("finds no changes between identical images", async () => {
+    const a = await image(100, 100, [
+      { x: 10, y: 10, width: 20, height: 20, color: "#000000" },
+    ]);
+    const diff = await diffImages(a, a, 0.1);
+    expect(diff.mismatchedPixels).toBe(0);
+    expect(diff.mismatchPercentage).toBe(0);
+    expect(diff.regions).toEqual([]);
+    expect((await sharp(diff.image).metadata()).width).toBe(100);
+  });
+
+  test("bounds each changed area with its own region", async () => {
+    const baseline = await image(200, 100);
+    const current = await image(200, 100, [
+      { x: 10, y: 20, width: 30, height: 10, color: "#000000" },
+      { x: 150, y: 60, width: 20, height: 20, color: "#ff0000" },
+    ]);
+    const diff = await diffImages(baseline, current, 0.1);
+
+    expect(diff.mismatchedPixels).toBe(30 * 10 + 20 * 20);
+    expect(diff.mismatchPercentage).toBe(3.5);
+    // Largest first
+    expect(diff.regions).toEqual([
+      { x: 150, y: 60, width: 20, height: 20 },
+      { x: 10, y: 20, width: 30, height: 10 },
+    ]);
+  });
+
+  test("ignores colour changes within the tolerance", async () => {
+    const baseline = await image(50, 50, [
+      { x: 0, y: 0, width: 50, height: 50, color: "#808080" },
+    ]);
+    const current = await image(50, 50, [
+      { x: 0, y: 0, width: 50, height: 50, color: "#888888" },
+    ]);
+    expect((await diffImages(baseline, current, 0.1)).mismatchedPixels).toBe(0);
+    expect((await diffImages(baseline, current, 0)).mismatchedPixels).toBe(
+      2500,
+    );
+  });
+
+  test("counts the area outside the smaller image as changed", async () => {
+    const diff = await diffImages(
+      await image(100, 50),
+      await image(100, 80),
+      0.1,
+    );
+    expect(diff.width).toBe(100);
+    expect(diff.height).toBe(80);
+    expect(diff.mismatchedPixels).toBe(100 * 30);
+    expect(diff.regions).toEqual([{ x: 0, y: 50, width: 100, height: 30 }]);
+  });
+});
+
+describe("perceptualHash", () => {
+  test("is stable for the same image and its rescaled copy", async () => {
+    const a = await image(400, 300, [
+      { x: 0, y: 0, width: 200, height: 300, color: "#000000" },
+    ]);
+    const scaled = await sharp(a).resize(200, 150).png().toBuffer();
+    const hash = await perceptualHash(a);
+
+    expect(hash).toMatch(/^[0-9a-f]{16}$/);
+    expect(await perceptualHash(a)).toBe(hash);
+    expect(hammingDistance(hash, await perceptualHash(scaled))).toBeLessThan(4);
+  });
+
+  test("moves for layout changes", async () => {
+    const left = await image(400, 300, [
+      { x: 0, y: 0, width: 200, height: 300, color: "#000000" },
+    ]);
+    const right = await image(400, 300, [
+      { x: 200, y: 0, width: 200, height: 300, color: "#000000" },
+    ]);
+    expect(
+      hammingDistance(await perceptualHash(left), await perceptualHash(right)),
+    ).toBeGreaterThan(4);
+  });
+});
+
+describe("hammingDistance", () => {
+  test("counts differing bits", () => {
+    expect(hammingDistance("0000000000000000", "0000000000000000")).toBe(0);
+    expect(hammingDistance("0000000000000000", "000000000000000f")).toBe(4);
+    expect(hammingDistance("ffffffffffffffff", "0000000000000000")).toBe(64);
+  });
+});
@@ -0,0 +1,228 @@
+import sharp from "sharp";
+
+export const MAX_DIFF_PIXELS = 40_000_000;
+
+// Changed pixels are grouped on a grid of this size before being merged
+// into regions, so nearby anti-aliasing noise forms a single box
+const REGION_CELL_SIZE = 8;
+const MAX_REGIONS = 100;
+
+export interface DiffRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ImageDiff {
+  width: number;
+  height: number;
+  mismatchedPixels: number;
+  mismatchPercentage: number;
+  regions: DiffRegion[];
+  image: Buffer;
+}
+
+export class DiffSizeError extends Error {
+  constructor(width: number, height: number) {
+    super(
+      `Images are too large to compare (${width}x${height}, max ${MAX_DIFF_PIXELS} pixels)`,
+    );
+    this.name = "DiffSizeError";
+  }
+}
+
+async function toRgb(buffer: Buffer) {
+  const { data, info } = await sharp(buffer)
+    .flatten({ background: "#ffffff" })
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return { data, width: info.width, height: info.height };
+}
+
+function findRegions(
+  changed: Uint8Array,
+  width: number,
+  height: number,
+): DiffRegion[] {
+  const columns = Math.ceil(width / REGION_CELL_SIZE);
+  const rows = Math.ceil(height / REGION_CELL_SIZE);
+  const cells = new Uint8Array(columns * rows);
+  // Tight pixel bounds of the changes inside each cell
+  const minX = new Int32Array(cells.length).fill(width);
+  const minY = new Int32Array(cells.length).fill(height);
+  const maxX = new Int32Array(cells.length);
+  const maxY = new Int32Array(cells.length);
+
+  for (let y = 0; y < height; y++) {
+    const row = Math.floor(y / REGION_CELL_SIZE) * columns;
+    for (let x = 0; x < width; x++) {
+      if (!changed[y * width + x]) continue;
+      const cell = row + Math.floor(x / REGION_CELL_SIZE);
+      cells[cell] = 1;
+      minX[cell] = Math.min(minX[cell], x);
+      minY[cell] = Math.min(minY[cell], y);
+      maxX[cell] = Math.max(maxX[cell], x);
+      maxY[cell] = Math.max(maxY[cell], y);
+    }
+  }
+
+  const regions: DiffRegion[] = [];
+  const stack: number[] = [];
+
+  for (let start = 0; start < cells.length; start++) {
+    if (cells[start] !== 1) continue;
+
+    let left = width;
+    let top = height;
+    let right = 0;
+    let bottom = 0;
+    cells[start] = 2;
+    stack.push(start);
+
+    while (stack.length > 0) {
+      const cell = stack.pop()!;
+      const column = cell % columns;
+      const row = Math.floor(cell / columns);
+      left = Math.min(left, minX[cell]);
+      top = Math.min(top, minY[cell]);
+      right = Math.max(right, maxX[cell]);
+      bottom = Math.max(bottom, maxY[cell]);
+
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nextColumn = column + dx;
+          const nextRow = row + dy;
+          if (
+            nextColumn < 0 ||
+            nextRow < 0 ||
+            nextColumn >= columns ||
+            nextRow >= rows
+          ) {
+            continue;
+          }
+          const next = nextRow * columns + nextColumn;
+          if (cells[next] === 1) {
+            cells[next] = 2;
+            stack.push(next);
+          }
+        }
+      }
+    }
+
+    regions.push({
+      x: left,
+      y: top,
+      width: right - left + 1,
+      height: bottom - top + 1,
+    });
+  }
+
+  return regions
+    .sort((a, b) => b.width * b.height - a.width * a.height)
+    .slice(0, MAX_REGIONS);
+}
+
+// Compares two images pixel by pixel. tolerance (0-1) is the colour distance
+// below which pixels count as equal. Images of different sizes are compared
+// on a canvas of the larger size; the uncovered area counts as changed.
+export async function diffImages(
+  baseline: Buffer,
+  current: Buffer,
+  tolerance: number,
+): Promise<ImageDiff> {
+  const [a, b] = await Promise.all([toRgb(baseline), toRgb(current)]);
+  const width = Math.max(a.width, b.width);
+  const height = Math.max(a.height, b.height);
+  if (width * height > MAX_DIFF_PIXELS) {
+    throw new DiffSizeError(width, height);
+  }
+
+  const maxDistance = tolerance * tolerance * 3 * 255 * 255;
+  const changed = new Uint8Array(width * height);
+  const output = Buffer.alloc(width * height * 3);
+  let mismatchedPixels = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const pixel = y * width + x;
+      const inA = x < a.width && y < a.height;
+      const inB = x < b.width && y < b.height;
+      const offsetA = (y * a.width + x) * 3;
+      const offsetB = (y * b.width + x) * 3;
+
+      let isChanged = !inA || !inB;
+      if (!isChanged) {
+        const dr = a.data[offsetA] - b.data[offsetB];
+        const dg = a.data[offsetA + 1] - b.data[offsetB + 1];
+        const db = a.data[offsetA + 2] - b.data[offsetB + 2];
+        isChanged = dr * dr + dg * dg + db * db > maxDistance;
+      }
+
+      const out = pixel * 3;
+      if (isChanged) {
+        changed[pixel] = 1;
+        mismatchedPixels++;
+        output[out] = 255;
+        output[out + 1] = 0;
+        output[out + 2] = 0;
+      } else {
+        // Unchanged pixels are shown as faded greyscale for context
+        const grey =
+          0.299 * a.data[offsetA] +
+          0.587 * a.data[offsetA + 1] +
+          0.114 * a.data[offsetA + 2];
+        const faded = Math.round(255 - (255 - grey) * 0.3);
+        output[out] = faded;
+        output[out + 1] = faded;
+        output[out + 2] = faded;
+      }
+    }
+  }
+
+  const image = await sharp(output, { raw: { width, height, channels: 3 } })
+    .png()
+    .toBuffer();
+
+  return {
+    width,
+    height,
+    mismatchedPixels,
+    mismatchPercentage:
+      Math.round((mismatchedPixels / (width * height)) * 100 * 1000) / 1000,
+    regions: findRegions(changed, width, height),
+    image,
+  };
+}
+
+// 64-bit difference hash: compares neighbouring pixels of a 9x8 greyscale
+// thumbnail. Small rendering differences barely move it, layout and
+// content changes do.
+export async function perceptualHash(buffer: Buffer): Promise<string> {
+  const pixels = await sharp(buffer)
+    .flatten({ background: "#ffffff" })
+    .greyscale()
+    .resize(9, 8, { fit: "fill" })
+    .raw()
+    .toBuffer();
+
+  let hash = 0n;
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) {
+      hash <<= 1n;
+      if (pixels[y * 9 + x] > pixels[y * 9 + x + 1]) hash |= 1n;
+    }
+  }
+  return hash.toString(16).padStart(16, "0");
+}
+
+export function hammingDistance(a: string, b: string): number {
+  let value = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+  let distance = 0;
+  while (value > 0n) {
+    distance += Number(value & 1n);
+    value >>= 1n;
+  }
+  return distance;
+}
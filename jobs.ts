@@ -0,0 +1,223 @@
+import { createHmac, randomUUID } from "crypto";
+
+export type JobStatus = "queued" | "running" | "done" | "failed";
+
+export interface Job<TInput, TResult> {
+  id: string;
+  status: JobStatus;
+  input: TInput;
+  // Results can hold credentialed captures, so only the submitter sees them
+  owner: string;
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+  result?: TResult;
+  error?: string;
+  callbackUrl?: string;
+  callback?: {
+    delivered: boolean;
+    attempts: number;
+    lastError?: string;
+  };
+}
+
+export interface JobQueueOptions<TInput, TResult> {
+  concurrency: number;
+  ttl: number;
+  // Jobs waiting to run
+  maxQueued: number;
+  // Jobs kept in memory, finished ones included
+  maxTracked: number;
+  webhookSecret: string;
+  webhookRetries: number;
+  checkCallbackUrl: (
+    url: string,
+  ) => Promise<{ safe: boolean; reason?: string }>;
+  run: (input: TInput) => Promise<TResult>;
+}
+
+export class QueueFullError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "QueueFullError";
+  }
+}
+
+export function signPayload(payload: string, secret: string): string {
+  return createHmac("sha256", secret).update(payload).digest("hex");
+}
+
+async function deliverCallback(
+  callbackUrl: string,
+  jobId: string,
+  payload: string,
+  secret: string,
+  retries: number,
+  state: NonNullable<Job<unknown, unknown>["callback"]>,
+  checkUrl: JobQueueOptions<unknown, unknown>["checkCallbackUrl"],
+): Promise<void> {
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    "User-Agent": "Macrolink-Webhook/1.0",
+    "X-Job-Id": jobId,
+  };
+
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    if (attempt > 0) {
+      const backoff = Math.min(1000 * 2 ** (attempt - 1), 60000);
+      await new Promise((resolve) => setTimeout(resolve, backoff));
+    }
+
+    // The timestamp is signed with the body so receivers can reject
+    // replayed deliveries; each attempt gets a fresh one
+    if (secret) {
+      const timestamp = String(Math.floor(Date.now() / 1000));
+      headers["X-Signature-Timestamp"] = timestamp;
+      headers["X-Signature"] =
+        `sha256=${signPayload(`${timestamp}.${payload}`, secret)}`;
+    }
+
+    // Re-checked before every attempt in case the host now resolves elsewhere
+    const urlCheck = await checkUrl(callbackUrl);
+    if (!urlCheck.safe) {
+      state.lastError = urlCheck.reason || "Callback URL is not allowed";
+      return;
+    }
+
+    state.attempts++;
+    try {
+      const response = await fetch(callbackUrl, {
+        method: "POST",
+        headers,
+        body: payload,
+        redirect: "manual",
+        signal: AbortSignal.timeout(10000),
+      });
+      if (response.ok) {
+        state.delivered = true;
+        state.lastError = undefined;
+        return;
+      }
+      state.lastError = `HTTP ${response.status}`;
+    } catch (error) {
+      state.lastError =
+        error instanceof Error ? error.message : "Unknown error";
+    }
+  }
+}
+
+export function createJobQueue<TInput, TResult>(
+  options: JobQueueOptions<TInput, TResult>,
+) {
+  const jobs = new Map<string, Job<TInput, TResult>>();
+  const pending: Job<TInput, TResult>[] = [];
+  let running = 0;
+
+  // Makes room by dropping the oldest finished jobs before their TTL
+  function evictFinished() {
+    for (const [id, job] of jobs) {
+      if (jobs.size < options.maxTracked) return;
+      if (job.finishedAt) jobs.delete(id);
+    }
+  }
+
+  function view(job: Job<TInput, TResult>) {
+    return {
+      id: job.id,
+      status: job.status,
+      createdAt: new Date(job.createdAt).toISOString(),
+      startedAt: job.startedAt ? new Date(job.startedAt).toISOString() : null,
+      finishedAt: job.finishedAt
+        ? new Date(job.finishedAt).toISOString()
+        : null,
+      result: job.result ?? null,
+      error: job.error ?? null,
+      callback: job.callback ?? null,
+    };
+  }
+
+  async function execute(job: Job<TInput, TResult>) {
+    running++;
+    job.status = "running";
+    job.startedAt = Date.now();
+
+    try {
+      job.result = await options.run(job.input);
+      job.status = "done";
+    } catch (error) {
+      job.error = error instanceof Error ? error.message : "Unknown error";
+      job.status = "failed";
+    }
+
+    job.finishedAt = Date.now();
+    running--;
+    drain();
+
+    if (job.callbackUrl && job.callback) {
+      await deliverCallback(
+        job.callbackUrl,
+        job.id,
+        JSON.stringify(view(job)),
+        options.webhookSecret,
+        options.webhookRetries,
+        job.callback,
+        options.checkCallbackUrl,
+      );
+    }
+  }
+
+  function drain() {
+    while (running < options.concurrency && pending.length > 0) {
+      void execute(pending.shift()!);
+    }
+  }
+
+  function submit(input: TInput, owner: string, callbackUrl?: string) {
+    if (pending.length >= options.maxQueued) {
+      throw new QueueFullError(
+        `Job queue is full (${options.maxQueued} waiting), try again later`,
+      );
+    }
+    evictFinished();
+    if (jobs.size >= options.maxTracked) {
+      throw new QueueFullError(
+        `Too many jobs in progress (${options.maxTracked}), try again later`,
+      );
+    }
+
+    const job: Job<TInput, TResult> = {
+      id: randomUUID(),
+      status: "queued",
+      input,
+      owner,
+      createdAt: Date.now(),
+      callbackUrl,
+      callback: callbackUrl ? { delivered: false, attempts: 0 } : undefined,
+    };
+    jobs.set(job.id, job);
+    pending.push(job);
+    drain();
+    return view(job);
+  }
+
+  // Jobs of other owners are reported as missing
+  function get(id: string, owner: string) {
+    const job = jobs.get(id);
+    return job && job.owner === owner ? view(job) : null;
+  }
+
+  function purgeExpired() {
+    const now = Date.now();
+    for (const [id, job] of jobs) {
+      if (job.finishedAt && now - job.finishedAt > options.ttl) {
+        jobs.delete(id);
+      }
+    }
+  }
+
+  function status() {
+    return { queued: pending.length, running, tracked: jobs.size };
+  }
+
+  return { submit, get, purgeExpired, status };
+}
@@ -0,0 +1,38 @@
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+const LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+export type Logger = ReturnType<typeof createLogger>;
+
+// One JSON object per line, so logs can be shipped and queried without
+// a parser. Warnings and errors go to stderr.
+export function createLogger(options: { level: string }) {
+  const minimum = LEVELS[options.level as LogLevel] ?? LEVELS.info;
+
+  function log(level: LogLevel, msg: string, fields: object = {}) {
+    if (LEVELS[level] < minimum) return;
+    const line = JSON.stringify({
+      time: new Date().toISOString(),
+      level,
+      msg,
+      ...fields,
+    });
+    if (LEVELS[level] >= LEVELS.warn) {
+      console.error(line);
+    } else {
+      console.log(line);
+    }
+  }
+
+  return {
+    debug: (msg: string, fields?: object) => log("debug", msg, fields),
+    info: (msg: string, fields?: object) => log("info", msg, fields),
+    warn: (msg: string, fields?: object) => log("warn", msg, fields),
+    error: (msg: string, fields?: object) => log("error", msg, fields),
+  };
+}
@@ -0,0 +1,186 @@
+import type { Page } from "puppeteer";
+
+export interface PageIcon {
+  href: string;
+  rel: string;
+  sizes: string | null;
+  type: string | null;
+}
+
+export interface PageFeed {
+  href: string;
+  type: string;
+  title: string | null;
+}
+
+export interface PageMetadata {
+  title: string;
+  description: string | null;
+  ogImage: string | null;
+  favicon: string | null;
+  url: string;
+  status: number | null;
+  canonical: string | null;
+  lang: string | null;
+  themeColor: string | null;
+  openGraph: Record<string, string | string[]>;
+  twitter: Record<string, string | string[]>;
+  jsonLd: unknown[];
+  icons: PageIcon[];
+  feeds: PageFeed[];
+}
+
+// Tags whose values are URLs and get resolved against the page
+const URL_PROPERTIES = [
+  "og:url",
+  "og:image",
+  "og:image:url",
+  "og:image:secure_url",
+  "og:video",
+  "og:video:url",
+  "og:video:secure_url",
+  "og:audio",
+  "og:audio:url",
+  "og:audio:secure_url",
+  "twitter:image",
+  "twitter:image:src",
+  "twitter:player",
+  "twitter:player:stream",
+];
+
+const ICON_RELS = [
+  "icon",
+  "shortcut icon",
+  "apple-touch-icon",
+  "apple-touch-icon-precomposed",
+  "mask-icon",
+];
+
+const FEED_TYPES = [
+  "application/rss+xml",
+  "application/atom+xml",
+  "application/feed+json",
+  "application/json",
+];
+
+// status is the HTTP status of the main document, which the page itself
+// cannot see
+export async function extractMetadata(
+  page: Page,
+  status: number | null,
+): Promise<PageMetadata> {
+  const metadata = await page.evaluate(
+    (urlProperties, iconRels, feedTypes) => {
+      const absolute = (value: string | null | undefined) => {
+        if (!value) return null;
+        try {
+          return new URL(value, document.baseURI).href;
+        } catch {
+          return null;
+        }
+      };
+
+      // Repeated tags (several og:image) become arrays
+      const collect = (prefix: string) => {
+        const tags: Record<string, string | string[]> = {};
+        for (const meta of Array.from(document.querySelectorAll("meta"))) {
+          const key =
+            meta.getAttribute("property") || meta.getAttribute("name") || "";
+          const content = meta.getAttribute("content");
+          if (!key.toLowerCase().startsWith(prefix) || content === null) {
+            continue;
+          }
+          const name = key.toLowerCase();
+          const value = urlProperties.includes(name)
+            ? absolute(content) || content
+            : content;
+          const existing = tags[name];
+          tags[name] =
+            existing === undefined
+              ? value
+              : Array.isArray(existing)
+                ? [...existing, value]
+                : [existing, value];
+        }
+        return tags;
+      };
+
+      const getMetaContent = (name: string) => {
+        const meta = document.querySelector(
+          `meta[name="${name}"], meta[property="${name}"]`,
+        );
+        return meta?.getAttribute("content") || null;
+      };
+
+      const jsonLd: unknown[] = [];
+      const scripts = document.querySelectorAll(
+        'script[type="application/ld+json"]',
+      );
+      for (const script of Array.from(scripts)) {
+        try {
+          jsonLd.push(JSON.parse(script.textContent || ""));
+        } catch {
+          // Sites ship broken JSON-LD often enough that one bad block
+          // should not hide the rest
+        }
+      }
+
+      const icons = Array.from(document.querySelectorAll("link[rel][href]"))
+        .filter((link) =>
+          iconRels.includes(
+            (link.getAttribute("rel") || "").toLowerCase().trim(),
+          ),
+        )
+        .map((link) => ({
+          href: absolute(link.getAttribute("href")) || "",
+          rel: (link.getAttribute("rel") || "").toLowerCase().trim(),
+          sizes: link.getAttribute("sizes"),
+          type: link.getAttribute("type"),
+        }))
+        .filter((icon) => icon.href);
+
+      const feeds = Array.from(
+        document.querySelectorAll('link[rel="alternate"][href][type]'),
+      )
+        .filter((link) =>
+          feedTypes.includes((link.getAttribute("type") || "").toLowerCase()),
+        )
+        .map((link) => ({
+          href: absolute(link.getAttribute("href")) || "",
+          type: (link.getAttribute("type") || "").toLowerCase(),
+          title: link.getAttribute("title"),
+        }))
+        .filter((feed) => feed.href);
+
+      const openGraph = collect("og:");
+      const firstImage = openGraph["og:image"];
+
+      return {
+        title: document.title,
+        description:
+          getMetaContent("description") || getMetaContent("og:description"),
+        ogImage: Array.isArray(firstImage) ? firstImage[0] : firstImage || null,
+        favicon:
+          icons.find((icon) => icon.rel === "icon")?.href ||
+          icons.find((icon) => icon.rel === "shortcut icon")?.href ||
+          null,
+        url: window.location.href,
+        canonical: absolute(
+          document.querySelector('link[rel="canonical"]')?.getAttribute("href"),
+        ),
+        lang: document.documentElement.getAttribute("lang") || null,
+        themeColor: getMetaContent("theme-color"),
+        openGraph,
+        twitter: collect("twitter:"),
+        jsonLd,
+        icons,
+        feeds,
+      };
+    },
+    URL_PROPERTIES,
+    ICON_RELS,
+    FEED_TYPES,
+  );
+
+  return { ...metadata, status };
+}
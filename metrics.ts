@@ -0,0 +1,232 @@
+export type Labels = Record<string, string>;
+
+// Seconds, from a quick cached render up to the navigation timeout
+export const DURATION_BUCKETS = [
+  0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 20, 30, 60,
+];
+
+// Bytes, from a small thumbnail up to a long full-page PNG
+export const SIZE_BUCKETS = [
+  10_000, 50_000, 100_000, 250_000, 500_000, 1_000_000, 2_500_000, 5_000_000,
+  10_000_000, 25_000_000,
+];
+
+export interface Counter {
+  inc(labels?: Labels, value?: number): void;
+  // Sum of every series whose labels include the given ones
+  get(labels?: Labels): number;
+}
+
+export interface Histogram {
+  observe(labels: Labels, value: number): void;
+  // Returns a function that records the elapsed seconds when called
+  startTimer(labels?: Labels): (extra?: Labels) => number;
+}
+
+interface CollectedSample {
+  labels: Labels;
+  value: number;
+}
+
+interface Metric {
+  name: string;
+  help: string;
+  type: "counter" | "gauge" | "histogram";
+  lines(): Promise<string[]>;
+}
+
+function escapeLabel(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return "";
+  return `{${entries.map(([key, value]) => `${key}="${escapeLabel(value)}"`).join(",")}}`;
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return "+Inf";
+  if (value === -Infinity) return "-Inf";
+  return String(value);
+}
+
+function matches(labels: Labels, filter: Labels): boolean {
+  return Object.entries(filter).every(([key, value]) => labels[key] === value);
+}
+
+// Label values are stored in declaration order so the same series always
+// maps to the same key, whatever order the caller passes them in
+function pickLabels(labelNames: string[], labels: Labels = {}) {
+  const picked: Labels = {};
+  for (const name of labelNames) {
+    picked[name] = labels[name] ?? "";
+  }
+  return { picked, key: labelNames.map((name) => picked[name]).join("\u0000") };
+}
+
+export function createMetricsRegistry(prefix = "") {
+  const metrics: Metric[] = [];
+
+  function register(metric: Metric) {
+    if (metrics.some((existing) => existing.name === metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    metrics.push(metric);
+  }
+
+  function counter(options: {
+    name: string;
+    help: string;
+    labelNames?: string[];
+  }): Counter {
+    const name = prefix + options.name;
+    const labelNames = options.labelNames || [];
+    const series = new Map<string, { labels: Labels; value: number }>();
+    // Unlabelled counters are exported as 0 before their first increment
+    if (labelNames.length === 0) series.set("", { labels: {}, value: 0 });
+
+    register({
+      name,
+      help: options.help,
+      type: "counter",
+      lines: async () =>
+        [...series.values()].map(
+          (entry) =>
+            `${name}${formatLabels(entry.labels)} ${formatValue(entry.value)}`,
+        ),
+    });
+
+    return {
+      inc(labels, value = 1) {
+        const { picked, key } = pickLabels(labelNames, labels);
+        const entry = series.get(key);
+        if (entry) {
+          entry.value += value;
+        } else {
+          series.set(key, { labels: picked, value });
+        }
+      },
+      get(labels = {}) {
+        let total = 0;
+        for (const entry of series.values()) {
+          if (matches(entry.labels, labels)) total += entry.value;
+        }
+        return total;
+      },
+    };
+  }
+
+  function histogram(options: {
+    name: string;
+    help: string;
+    buckets: number[];
+    labelNames?: string[];
+  }): Histogram {
+    const name = prefix + options.name;
+    const labelNames = options.labelNames || [];
+    const buckets = [...options.buckets].sort((a, b) => a - b);
+    const series = new Map<
+      string,
+      { labels: Labels; counts: number[]; sum: number; count: number }
+    >();
+
+    register({
+      name,
+      help: options.help,
+      type: "histogram",
+      lines: async () => {
+        const lines: string[] = [];
+        for (const entry of series.values()) {
+          let cumulative = 0;
+          for (const [i, bound] of buckets.entries()) {
+            cumulative += entry.counts[i];
+            lines.push(
+              `${name}_bucket${formatLabels({ ...entry.labels, le: formatValue(bound) })} ${cumulative}`,
+            );
+          }
+          lines.push(
+            `${name}_bucket${formatLabels({ ...entry.labels, le: "+Inf" })} ${entry.count}`,
+            `${name}_sum${formatLabels(entry.labels)} ${formatValue(entry.sum)}`,
+            `${name}_count${formatLabels(entry.labels)} ${entry.count}`,
+          );
+        }
+        return lines;
+      },
+    });
+
+    function observe(labels: Labels, value: number) {
+      const { picked, key } = pickLabels(labelNames, labels);
+      let entry = series.get(key);
+      if (!entry) {
+        entry = {
+          labels: picked,
+          counts: buckets.map(() => 0),
+          sum: 0,
+          count: 0,
+        };
+        series.set(key, entry);
+      }
+      // Counts are stored per bucket and made cumulative when rendered
+      const index = buckets.findIndex((bound) => value <= bound);
+      if (index !== -1) entry.counts[index]++;
+      entry.sum += value;
+      entry.count++;
+    }
+
+    return {
+      observe,
+      startTimer(labels = {}) {
+        const start = performance.now();
+        return (extra = {}) => {
+          const seconds = (performance.now() - start) / 1000;
+          observe({ ...labels, ...extra }, seconds);
+          return seconds;
+        };
+      },
+    };
+  }
+
+  // Values read from elsewhere (pool, queues) at scrape time
+  function collect(options: {
+    name: string;
+    help: string;
+    type?: "counter" | "gauge";
+    collect: () =>
+      number | CollectedSample[] | Promise<number | CollectedSample[]>;
+  }): void {
+    const name = prefix + options.name;
+    register({
+      name,
+      help: options.help,
+      type: options.type || "gauge",
+      lines: async () => {
+        const value = await options.collect();
+        const samples =
+          typeof value === "number" ? [{ labels: {}, value }] : value;
+        return samples.map(
+          (sample) =>
+            `${name}${formatLabels(sample.labels)} ${formatValue(sample.value)}`,
+        );
+      },
+    });
+  }
+
+  // Prometheus text exposition format
+  async function render(): Promise<string> {
+    const output: string[] = [];
+    for (const metric of metrics) {
+      output.push(
+        `# HELP ${metric.name} ${metric.help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n")}`,
+        `# TYPE ${metric.name} ${metric.type}`,
+        ...(await metric.lines()),
+      );
+    }
+    return `${output.join("\n")}\n`;
+  }
+
+  return { counter, histogram, collect, render };
+}
@@ -0,0 +1,310 @@
+import { randomUUID } from "crypto";
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { hammingDistance, perceptualHash } from "./diff";
+import { parseSchedule } from "./schedule";
+import type { Storage } from "./storage";
+
+// History captures live next to cached screenshots; the prefix keeps them
+// out of the general cache cleanup
+export const MONITOR_FILE_PREFIX = "monitor-";
+
+export interface MonitorCapture {
+  capturedAt: string;
+  filename: string | null;
+  size: number;
+  hash: string | null;
+  distance: number | null;
+  changed: boolean;
+  error?: string;
+}
+
+export interface Monitor {
+  id: string;
+  name: string;
+  url: string;
+  schedule: string;
+  options: Record<string, unknown>;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+  lastRunAt: string | null;
+  nextRunAt: string | null;
+  lastChangedAt: string | null;
+  // Id of the API key that created the monitor; null for monitors created
+  // before ownership was recorded, which only admin keys can see
+  owner: string | null;
+  history: MonitorCapture[];
+}
+
+export interface MonitorInput {
+  name?: string;
+  url?: string;
+  schedule?: string;
+  options?: Record<string, unknown>;
+  enabled?: boolean;
+}
+
+export interface MonitorStoreOptions {
+  file: string;
+  storage: Storage;
+  historyLimit: number;
+  changeThreshold: number;
+  capture: (
+    monitor: Monitor,
+  ) => Promise<{ buffer: Buffer; format: string; contentType: string }>;
+}
+
+export function createMonitorStore(options: MonitorStoreOptions) {
+  const monitors = new Map<string, Monitor>();
+  const running = new Set<string>();
+  let ticking = false;
+  let dirty = false;
+
+  function load() {
+    if (!existsSync(options.file)) return;
+    try {
+      const saved = JSON.parse(readFileSync(options.file, "utf8")) as Monitor[];
+      for (const monitor of saved) {
+        monitors.set(monitor.id, { ...monitor, owner: monitor.owner ?? null });
+      }
+    } catch {
+      // Start empty rather than refusing to boot on a corrupt file
+    }
+  }
+
+  function flush() {
+    if (!dirty) return;
+    writeFileSync(
+      options.file,
+      JSON.stringify([...monitors.values()], null, 2),
+    );
+    dirty = false;
+  }
+
+  function scheduleNext(monitor: Monitor, from = new Date()) {
+    const schedule = parseSchedule(monitor.schedule);
+    monitor.nextRunAt =
+      monitor.enabled && schedule ? schedule.next(from).toISOString() : null;
+  }
+
+  function view(monitor: Monitor) {
+    const { history, ...rest } = monitor;
+    return {
+      ...rest,
+      captures: history.length,
+      lastCapture: history[history.length - 1] ?? null,
+    };
+  }
+
+  // Without an owner every monitor is returned
+  function list(owner?: string) {
+    return [...monitors.values()]
+      .filter((monitor) => owner === undefined || monitor.owner === owner)
+      .map(view);
+  }
+
+  function get(id: string, owner?: string) {
+    const monitor = monitors.get(id);
+    if (!monitor || (owner !== undefined && monitor.owner !== owner)) {
+      return null;
+    }
+    return view(monitor);
+  }
+
+  function count() {
+    return monitors.size;
+  }
+
+  function create(
+    input: MonitorInput & { url: string; schedule: string },
+    owner: string,
+  ) {
+    const now = new Date().toISOString();
+    const monitor: Monitor = {
+      id: randomUUID(),
+      name: input.name || input.url,
+      url: input.url,
+      schedule: input.schedule,
+      options: input.options || {},
+      enabled: input.enabled !== false,
+      createdAt: now,
+      updatedAt: now,
+      lastRunAt: null,
+      nextRunAt: null,
+      lastChangedAt: null,
+      owner,
+      history: [],
+    };
+    // First capture happens on the next scheduler tick
+    monitor.nextRunAt = monitor.enabled ? now : null;
+    monitors.set(monitor.id, monitor);
+    dirty = true;
+    return view(monitor);
+  }
+
+  function update(id: string, input: MonitorInput) {
+    const monitor = monitors.get(id);
+    if (!monitor) return null;
+
+    if (input.name !== undefined) monitor.name = input.name;
+    if (input.url !== undefined) monitor.url = input.url;
+    if (input.options !== undefined) monitor.options = input.options;
+    if (input.enabled !== undefined) monitor.enabled = input.enabled;
+    if (input.schedule !== undefined) monitor.schedule = input.schedule;
+    if (input.schedule !== undefined || input.enabled !== undefined) {
+      scheduleNext(monitor);
+    }
+    monitor.updatedAt = new Date().toISOString();
+    dirty = true;
+    return view(monitor);
+  }
+
+  async function remove(id: string): Promise<boolean> {
+    const monitor = monitors.get(id);
+    if (!monitor) return false;
+
+    monitors.delete(id);
+    dirty = true;
+    for (const entry of monitor.history) {
+      if (entry.filename) await options.storage.delete(entry.filename);
+    }
+    return true;
+  }
+
+  function history(id: string) {
+    return monitors.get(id)?.history ?? null;
+  }
+
+  async function run(monitor: Monitor) {
+    running.add(monitor.id);
+    const capturedAt = new Date();
+    const previous = [...monitor.history]
+      .reverse()
+      .find((entry) => entry.hash !== null);
+
+    let entry: MonitorCapture;
+    try {
+      const result = await options.capture(monitor);
+      const filename = `${MONITOR_FILE_PREFIX}${monitor.id}-${capturedAt.getTime()}.${result.format}`;
+      await options.storage.put(filename, result.buffer, result.contentType);
+
+      const hash = await perceptualHash(result.buffer);
+      const distance = previous?.hash
+        ? hammingDistance(previous.hash, hash)
+        : null;
+      entry = {
+        capturedAt: capturedAt.toISOString(),
+        filename,
+        size: result.buffer.length,
+        hash,
+        distance,
+        changed: distance !== null && distance > options.changeThreshold,
+      };
+    } catch (error) {
+      entry = {
+        capturedAt: capturedAt.toISOString(),
+        filename: null,
+        size: 0,
+        hash: null,
+        distance: null,
+        changed: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+
+    running.delete(monitor.id);
+
+    // Deleted while the capture was running
+    if (monitors.get(monitor.id) !== monitor) {
+      if (entry.filename) await options.storage.delete(entry.filename);
+      return;
+    }
+
+    monitor.history.push(entry);
+    monitor.lastRunAt = entry.capturedAt;
+    if (entry.changed) monitor.lastChangedAt = entry.capturedAt;
+    scheduleNext(monitor, capturedAt);
+
+    const excess = monitor.history.length - options.historyLimit;
+    if (excess > 0) {
+      for (const old of monitor.history.splice(0, excess)) {
+        if (old.filename) await options.storage.delete(old.filename);
+      }
+    }
+    dirty = true;
+  }
+
+  // Captures due monitors one at a time so scheduled work never crowds
+  // interactive requests out of the page pool
+  async function runDue() {
+    if (ticking) return;
+    ticking = true;
+    try {
+      const now = Date.now();
+      const due = [...monitors.values()].filter(
+        (monitor) =>
+          monitor.enabled &&
+          monitor.nextRunAt &&
+          Date.parse(monitor.nextRunAt) <= now &&
+          !running.has(monitor.id),
+      );
+      for (const monitor of due) {
+        await run(monitor);
+      }
+    } finally {
+      ticking = false;
+    }
+  }
+
+  // Drops history older than maxAge, returning what was freed
+  async function prune(maxAge: number) {
+    const cutoff = Date.now() - maxAge;
+    let deleted = 0;
+    let freed = 0;
+
+    for (const monitor of monitors.values()) {
+      const expired = monitor.history.filter(
+        (entry) => Date.parse(entry.capturedAt) < cutoff,
+      );
+      if (expired.length === 0) continue;
+
+      monitor.history = monitor.history.filter(
+        (entry) => !expired.includes(entry),
+      );
+      for (const entry of expired) {
+        if (!entry.filename) continue;
+        await options.storage.delete(entry.filename);
+        deleted++;
+        freed += entry.size;
+      }
+      dirty = true;
+    }
+
+    return { deleted, freed };
+  }
+
+  function status() {
+    return {
+      monitors: monitors.size,
+      enabled: [...monitors.values()].filter((monitor) => monitor.enabled)
+        .length,
+      running: running.size,
+    };
+  }
+
+  load();
+
+  return {
+    list,
+    get,
+    count,
+    create,
+    update,
+    remove,
+    history,
+    runDue,
+    prune,
+    status,
+    flush,
+  };
+}
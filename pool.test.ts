@@ -0,0 +1,156 @@
+import { describe, expect, test } from "bun:test";
+import type { Browser, Page } from "puppeteer";
+import { createPagePool, PoolTimeoutError, type PagePoolOptions } from "./pool";
+
+// Chrome is not needed to test the pool's bookkeeping, so browsers are
+// stand-ins that only track their pages and contexts
+function createFakeBrowser() {
+  const listeners: (() => void)[] = [];
+  const state = { closed: false, pages: 0, contexts: 0 };
+
+  const browser = {
+    connected: true,
+    on(event: string, listener: () => void) {
+      if (event === "disconnected") listeners.push(listener);
+      return browser;
+    },
+    async newPage() {
+      return createPage(null);
+    },
+    async createBrowserContext() {
+      state.contexts++;
+      const context = {
+        newPage: async () => createPage(context),
+        close: async () => {
+          state.contexts--;
+        },
+      };
+      return context;
+    },
+    async close() {
+      state.closed = true;
+      browser.disconnect();
+    },
+    // A crash, or the browser process being killed
+    disconnect() {
+      browser.connected = false;
+      for (const listener of listeners) listener();
+    },
+  };
+
+  function createPage(context: { close(): Promise<void> } | null) {
+    state.pages++;
+    return {
+      browser: () => browser,
+      browserContext: () => context,
+      close: async () => {
+        state.pages--;
+      },
+    } as unknown as Page;
+  }
+
+  return { browser, state };
+}
+
+function createPool(options: Partial<PagePoolOptions> = {}) {
+  const launched: ReturnType<typeof createFakeBrowser>[] = [];
+  const pool = createPagePool({
+    maxPages: 2,
+    queueTimeout: 50,
+    recycleAfter: 0,
+    launchArgs: [],
+    launch: async () => {
+      const fake = createFakeBrowser();
+      launched.push(fake);
+      return fake.browser as unknown as Browser;
+    },
+    ...options,
+  });
+  return { pool, launched };
+}
+
+describe("createPagePool", () => {
+  test("times out acquires queued behind a full pool", async () => {
+    const { pool } = createPool({ maxPages: 1 });
+    await pool.acquire();
+
+    const start = Date.now();
+    await expect(pool.acquire()).rejects.toBeInstanceOf(PoolTimeoutError);
+    expect(Date.now() - start).toBeGreaterThanOrEqual(45);
+    expect(pool.status()).toMatchObject({ activePages: 1, queued: 0 });
+  });
+
+  test("hands a released slot to the next waiter", async () => {
+    const { pool, launched } = createPool({ maxPages: 1, queueTimeout: 1000 });
+    const first = await pool.acquire();
+    const waiting = pool.acquire();
+    expect(pool.status().queued).toBe(1);
+
+    await pool.release(first);
+    await waiting;
+    expect(pool.status()).toMatchObject({ activePages: 1, queued: 0 });
+    expect(launched[0].state.pages).toBe(1);
+  });
+
+  test("frees the slot when a page is released", async () => {
+    const { pool } = createPool();
+    const pages = [await pool.acquire(), await pool.acquire()];
+    expect(pool.status().activePages).toBe(2);
+
+    for (const page of pages) await pool.release(page);
+    expect(pool.status().activePages).toBe(0);
+  });
+
+  test("closes the context of isolated pages", async () => {
+    const { pool, launched } = createPool();
+    const page = await pool.acquire({ isolated: true });
+    expect(launched[0].state.contexts).toBe(1);
+
+    await pool.release(page);
+    expect(launched[0].state.contexts).toBe(0);
+  });
+
+  test("recycles the browser after recycleAfter captures", async () => {
+    const { pool, launched } = createPool({ recycleAfter: 2 });
+    await pool.release(await pool.acquire());
+    // Still in use when the browser retires
+    const open = await pool.acquire();
+    await pool.release(await pool.acquire());
+
+    expect(pool.status().browser).toBe("not started");
+    expect(launched[0].state.closed).toBe(false);
+
+    await pool.release(open);
+    expect(launched[0].state.closed).toBe(true);
+
+    await pool.release(await pool.acquire());
+    expect(launched).toHaveLength(2);
+    expect(pool.status()).toMatchObject({
+      launches: 2,
+      crashes: 0,
+      capturesSinceLaunch: 1,
+    });
+  });
+
+  test("relaunches after the browser disconnects", async () => {
+    const { pool, launched } = createPool();
+    await pool.release(await pool.acquire());
+
+    launched[0].browser.disconnect();
+    expect(pool.status()).toMatchObject({ browser: "not started", crashes: 1 });
+
+    await pool.release(await pool.acquire());
+    expect(launched).toHaveLength(2);
+    expect(pool.status()).toMatchObject({ browser: "connected", launches: 2 });
+  });
+
+  test("rejects waiters when closed", async () => {
+    const { pool, launched } = createPool({ maxPages: 1, queueTimeout: 1000 });
+    await pool.acquire();
+    const waiting = pool.acquire();
+
+    await pool.close();
+    await expect(waiting).rejects.toThrow("Browser pool closed");
+    expect(launched[0].state.closed).toBe(true);
+  });
+});
@@ -0,0 +1,215 @@
+import puppeteer, { Browser, Page } from "puppeteer";
+
+export interface PagePoolOptions {
+  maxPages: number;
+  queueTimeout: number;
+  recycleAfter: number;
+  launchArgs: string[];
+  // Starts the browser; defaults to puppeteer.launch
+  launch?: (args: string[]) => Promise<Browser>;
+}
+
+export interface PagePoolStatus {
+  browser: "connected" | "not started";
+  activePages: number;
+  maxPages: number;
+  queued: number;
+  capturesSinceLaunch: number;
+  recycleAfter: number;
+  launches: number;
+  crashes: number;
+}
+
+export class PoolTimeoutError extends Error {
+  constructor(timeout: number) {
+    super(`No browser page available within ${timeout}ms`);
+    this.name = "PoolTimeoutError";
+  }
+}
+
+interface Waiter {
+  resolve: () => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+export function createPagePool(options: PagePoolOptions) {
+  let browser: Browser | null = null;
+  let launching: Promise<Browser> | null = null;
+  let active = 0;
+  let capturesSinceLaunch = 0;
+  let launches = 0;
+  let crashes = 0;
+  const openPages = new Map<Browser, number>();
+  const retiring = new Set<Browser>();
+  const isolatedPages = new WeakSet<Page>();
+  const waiters: Waiter[] = [];
+
+  async function launch(): Promise<Browser> {
+    const instance = options.launch
+      ? await options.launch(options.launchArgs)
+      : await puppeteer.launch({ headless: true, args: options.launchArgs });
+
+    instance.on("disconnected", () => {
+      openPages.delete(instance);
+      if (retiring.delete(instance)) return;
+      if (browser === instance) {
+        browser = null;
+        crashes++;
+      }
+    });
+
+    browser = instance;
+    capturesSinceLaunch = 0;
+    launches++;
+    openPages.set(instance, 0);
+    return instance;
+  }
+
+  async function getBrowser(): Promise<Browser> {
+    if (browser && browser.connected) return browser;
+    if (!launching) {
+      launching = launch().finally(() => {
+        launching = null;
+      });
+    }
+    return launching;
+  }
+
+  async function closeIfDrained(instance: Browser) {
+    if (!retiring.has(instance) || (openPages.get(instance) || 0) > 0) return;
+    try {
+      await instance.close();
+    } catch {
+      // Already gone
+    }
+    retiring.delete(instance);
+    openPages.delete(instance);
+  }
+
+  function waitForSlot(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = {
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          const index = waiters.indexOf(waiter);
+          if (index !== -1) waiters.splice(index, 1);
+          reject(new PoolTimeoutError(options.queueTimeout));
+        }, options.queueTimeout),
+      };
+      waiters.push(waiter);
+    });
+  }
+
+  function releaseSlot() {
+    const next = waiters.shift();
+    if (next) {
+      clearTimeout(next.timer);
+      next.resolve();
+    } else {
+      active--;
+    }
+  }
+
+  // Isolated pages get their own browser context, so cookies and storage
+  // never outlive the capture or leak into pages that share the default one
+  async function acquire(
+    acquireOptions: { isolated?: boolean } = {},
+  ): Promise<Page> {
+    if (active < options.maxPages) {
+      active++;
+    } else {
+      await waitForSlot();
+    }
+
+    try {
+      const instance = await getBrowser();
+      let page: Page;
+      if (acquireOptions.isolated) {
+        const context = await instance.createBrowserContext();
+        try {
+          page = await context.newPage();
+        } catch (error) {
+          await context.close().catch(() => {});
+          throw error;
+        }
+        isolatedPages.add(page);
+      } else {
+        page = await instance.newPage();
+      }
+      openPages.set(instance, (openPages.get(instance) || 0) + 1);
+      return page;
+    } catch (error) {
+      releaseSlot();
+      throw error;
+    }
+  }
+
+  async function release(page: Page): Promise<void> {
+    const instance = page.browser();
+
+    try {
+      if (isolatedPages.has(page)) {
+        await page.browserContext().close();
+      } else {
+        await page.close();
+      }
+    } catch {
+      // Page or browser already closed
+    }
+
+    if (openPages.has(instance)) {
+      openPages.set(instance, Math.max((openPages.get(instance) || 1) - 1, 0));
+    }
+
+    if (instance === browser) {
+      capturesSinceLaunch++;
+      if (
+        options.recycleAfter > 0 &&
+        capturesSinceLaunch >= options.recycleAfter
+      ) {
+        retiring.add(instance);
+        browser = null;
+      }
+    }
+
+    releaseSlot();
+    await closeIfDrained(instance);
+  }
+
+  function status(): PagePoolStatus {
+    return {
+      browser: browser && browser.connected ? "connected" : "not started",
+      activePages: active,
+      maxPages: options.maxPages,
+      queued: waiters.length,
+      capturesSinceLaunch,
+      recycleAfter: options.recycleAfter,
+      launches,
+      crashes,
+    };
+  }
+
+  async function close(): Promise<void> {
+    for (const waiter of waiters.splice(0)) {
+      clearTimeout(waiter.timer);
+      waiter.reject(new Error("Browser pool closed"));
+    }
+
+    const instances = [...openPages.keys()];
+    browser = null;
+    for (const instance of instances) {
+      retiring.add(instance);
+      try {
+        await instance.close();
+      } catch {
+        // Already gone
+      }
+    }
+  }
+
+  return { acquire, release, status, close };
+}
+
+export type PagePool = ReturnType<typeof createPagePool>;
@@ -0,0 +1,59 @@
+import { describe, expect, test } from "bun:test";
+import { minimumInterval, parseSchedule } from "./schedule";
+
+const from = new Date("2026-01-01T00:00:00Z");
+
+describe("parseSchedule", () => {
+  test("parses durations", () => {
+    const schedule = parseSchedule("15m")!;
+    expect(schedule.next(from).toISOString()).toBe("2026-01-01T00:15:00.000Z");
+    expect(parseSchedule("0h")).toBeNull();
+  });
+
+  test("expands aliases to cron", () => {
+    const schedule = parseSchedule("@daily")!;
+    expect(schedule.next(from).toISOString()).toBe("2026-01-02T00:00:00.000Z");
+  });
+
+  test("parses cron ranges, lists and steps", () => {
+    const schedule = parseSchedule("10-50/20 9,17 * * 1-5")!;
+    // 2026-01-01 is a Thursday
+    expect(schedule.next(from).toISOString()).toBe("2026-01-01T09:10:00.000Z");
+    expect(schedule.next(new Date("2026-01-02T17:50:00Z")).toISOString()).toBe(
+      "2026-01-05T09:10:00.000Z",
+    );
+  });
+
+  test("matches either day field when both are restricted", () => {
+    const schedule = parseSchedule("0 0 15 * 1")!;
+    // Monday the 5th comes before the 15th
+    expect(schedule.next(from).toISOString()).toBe("2026-01-05T00:00:00.000Z");
+  });
+
+  test("rejects malformed expressions", () => {
+    for (const expression of [
+      "",
+      "5x",
+      "* * * *",
+      "60 * * * *",
+      "*/0 * * * *",
+      "5-1 * * * *",
+    ]) {
+      expect(parseSchedule(expression)).toBeNull();
+    }
+  });
+});
+
+describe("minimumInterval", () => {
+  test("returns the smallest gap between runs", () => {
+    expect(minimumInterval(parseSchedule("0,5 * * * *")!, from)).toBe(
+      5 * 60 * 1000,
+    );
+  });
+
+  test("throws for schedules that never run", () => {
+    expect(() => minimumInterval(parseSchedule("0 0 31 2 *")!, from)).toThrow(
+      "never runs",
+    );
+  });
+});
@@ -0,0 +1,136 @@
+export interface Schedule {
+  expression: string;
+  next(after: Date): Date;
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+const CRON_ALIASES: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+};
+
+const CRON_FIELDS = [
+  { min: 0, max: 59 },
+  { min: 0, max: 23 },
+  { min: 1, max: 31 },
+  { min: 1, max: 12 },
+  { min: 0, max: 6 },
+];
+
+// Parses one cron field ("*", "5", "1-5", "*/15", "0,30", "10-50/10")
+// into the set of values it matches
+function parseCronField(
+  field: string,
+  min: number,
+  max: number,
+): Set<number> | null {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const match = part.match(/^(\*|\d+)(?:-(\d+))?(?:\/(\d+))?$/);
+    if (!match) return null;
+
+    const start = match[1] === "*" ? min : parseInt(match[1]);
+    let end = match[1] === "*" ? max : start;
+    if (match[2] !== undefined) end = parseInt(match[2]);
+    // "5/15" means every 15 starting at 5
+    if (match[3] !== undefined && match[1] !== "*" && match[2] === undefined) {
+      end = max;
+    }
+    const step = match[3] !== undefined ? parseInt(match[3]) : 1;
+
+    if (start < min || end > max || start > end || step < 1) return null;
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+function parseCron(expression: string): Schedule | null {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) return null;
+
+  const sets = fields.map((field, i) =>
+    parseCronField(field, CRON_FIELDS[i].min, CRON_FIELDS[i].max),
+  );
+  if (sets.some((set) => !set)) return null;
+  const [minutes, hours, days, months, weekdays] = sets as Set<number>[];
+
+  // Standard cron: when both day fields are restricted, either may match
+  const anyDay = fields[2] === "*";
+  const anyWeekday = fields[4] === "*";
+  const matchesDay = (date: Date) => {
+    const dayMatch = days.has(date.getUTCDate());
+    const weekdayMatch = weekdays.has(date.getUTCDay());
+    if (anyDay) return weekdayMatch;
+    if (anyWeekday) return dayMatch;
+    return dayMatch || weekdayMatch;
+  };
+
+  return {
+    expression,
+    next(after) {
+      const date = new Date(after.getTime());
+      date.setUTCSeconds(0, 0);
+      date.setUTCMinutes(date.getUTCMinutes() + 1);
+
+      // Jumps a whole month/day/hour at a time, so this stays short
+      for (let i = 0; i < 100000; i++) {
+        if (!months.has(date.getUTCMonth() + 1)) {
+          date.setUTCMonth(date.getUTCMonth() + 1, 1);
+          date.setUTCHours(0, 0);
+        } else if (!matchesDay(date)) {
+          date.setUTCDate(date.getUTCDate() + 1);
+          date.setUTCHours(0, 0);
+        } else if (!hours.has(date.getUTCHours())) {
+          date.setUTCHours(date.getUTCHours() + 1, 0);
+        } else if (!minutes.has(date.getUTCMinutes())) {
+          date.setUTCMinutes(date.getUTCMinutes() + 1);
+        } else {
+          return date;
+        }
+      }
+
+      throw new Error(`Schedule '${expression}' never runs`);
+    },
+  };
+}
+
+// Accepts durations ("15m", "6h", "1d"), @hourly/@daily/@weekly/@monthly,
+// or a five-field cron expression evaluated in UTC
+export function parseSchedule(expression: string): Schedule | null {
+  const trimmed = expression.trim().toLowerCase();
+
+  const duration = trimmed.match(/^(\d+)\s*([mhd])$/);
+  if (duration) {
+    const interval = parseInt(duration[1]) * DURATION_UNITS[duration[2]];
+    if (interval <= 0) return null;
+    return {
+      expression: trimmed,
+      next: (after) => new Date(after.getTime() + interval),
+    };
+  }
+
+  return parseCron(CRON_ALIASES[trimmed] || trimmed);
+}
+
+// Smallest gap between the next few runs, used to enforce a minimum interval
+export function minimumInterval(schedule: Schedule, from = new Date()): number {
+  let previous = schedule.next(from);
+  let smallest = Infinity;
+  for (let i = 0; i < 5; i++) {
+    const next = schedule.next(previous);
+    smallest = Math.min(smallest, next.getTime() - previous.getTime());
+    previous = next;
+  }
+  return smallest;
+}
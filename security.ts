@@ -1,3 +1,203 @@
+import { lookup } from "dns/promises";
+import { isIP } from "net";
+import { BLOCKABLE_RESOURCE_TYPES } from "./blocklist";
+import {
+  ACTION_TYPES,
+  MAX_ACTION_TIMEOUT,
+  MAX_ACTIONS,
+  SELECTOR_ACTIONS,
+  type PageAction,
+} from "./actions";
+
+const BLOCKED_HOST_PATTERNS = [
+  /^localhost$/i,
+  /\.localhost$/i,
+  /^127\./,
+  /^0\./,
+  /^10\./,
+  /^172\.(1[6-9]|2[0-9]|3[0-1])\./,
+  /^192\.168\./,
+  /^169\.254\./,
+  /^::1$/,
+  /^fc00:/,
+  /^fe80:/,
+  /^metadata\.google\.internal$/i,
+  /^169\.254\.169\.254$/,
+];
+
+const PRIVATE_IPV4_RANGES: [string, number][] = [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.0.2.0", 24],
+  ["192.88.99.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["198.51.100.0", 24],
+  ["203.0.113.0", 24],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+];
+
+const PRIVATE_NETWORK_REASON =
+  "Access to private networks and cloud metadata endpoints is blocked";
+
+function ipv4ToNumber(address: string): number {
+  return address
+    .split(".")
+    .reduce((total, octet) => total * 256 + parseInt(octet), 0);
+}
+
+function isPrivateIPv4(value: number): boolean {
+  return PRIVATE_IPV4_RANGES.some(([base, bits]) => {
+    const mask = bits === 0 ? 0 : (~0 << (32 - bits)) >>> 0;
+    return (value & mask) >>> 0 === (ipv4ToNumber(base) & mask) >>> 0;
+  });
+}
+
+function expandIPv6(address: string): number[] | null {
+  let value = address.toLowerCase().split("%")[0];
+
+  const embedded = value.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (embedded) {
+    const v4 = ipv4ToNumber(embedded[1]);
+    value =
+      value.slice(0, -embedded[1].length) +
+      `${(v4 >>> 16).toString(16)}:${(v4 & 0xffff).toString(16)}`;
+  }
+
+  const halves = value.split("::");
+  if (halves.length > 2) return null;
+
+  const head = halves[0] ? halves[0].split(":") : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(":") : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 1 ? head.length !== 8 : missing < 1) return null;
+
+  const groups = [...head, ...Array(missing).fill("0"), ...tail].map((group) =>
+    parseInt(group, 16),
+  );
+  return groups.some((group) => isNaN(group) || group > 0xffff) ? null : groups;
+}
+
+function isPrivateIPv6(groups: number[]): boolean {
+  const embeddedV4 = (high: number, low: number) =>
+    isPrivateIPv4(((high << 16) >>> 0) + low);
+  const zeroBetween = (start: number, end: number) =>
+    groups.slice(start, end).every((group) => group === 0);
+  const zeroUntil = (end: number) => zeroBetween(0, end);
+
+  // Unspecified and loopback
+  if (zeroUntil(7) && groups[7] <= 1) return true;
+  // IPv4-mapped (::ffff:a.b.c.d) and IPv4-compatible (::a.b.c.d)
+  if (zeroUntil(5) && (groups[5] === 0xffff || groups[5] === 0)) {
+    return embeddedV4(groups[6], groups[7]);
+  }
+  // NAT64 (64:ff9b::a.b.c.d)
+  if (groups[0] === 0x64 && groups[1] === 0xff9b) {
+    return embeddedV4(groups[6], groups[7]);
+  }
+  // 6to4 (2002:aabb:ccdd::)
+  if (groups[0] === 0x2002) return embeddedV4(groups[1], groups[2]);
+  // Unique local, link-local, site-local, multicast
+  if ((groups[0] & 0xfe00) === 0xfc00) return true;
+  if ((groups[0] & 0xffc0) === 0xfe80) return true;
+  if ((groups[0] & 0xffc0) === 0xfec0) return true;
+  if ((groups[0] & 0xff00) === 0xff00) return true;
+  // Documentation and discard-only prefixes
+  if (groups[0] === 0x2001 && groups[1] === 0xdb8) return true;
+  if (groups[0] === 0x100 && zeroBetween(1, 4)) return true;
+
+  return false;
+}
+
+export function isPrivateAddress(address: string): boolean {
+  const version = isIP(address);
+  if (version === 4) return isPrivateIPv4(ipv4ToNumber(address));
+  if (version === 6) {
+    const groups = expandIPv6(address);
+    return groups ? isPrivateIPv6(groups) : true;
+  }
+  return false;
+}
+
+function isBlockedHostname(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, "");
+  if (BLOCKED_HOST_PATTERNS.some((pattern) => pattern.test(host))) {
+    return true;
+  }
+  return isIP(host) !== 0 && isPrivateAddress(host);
+}
+
+const dnsCache = new Map<string, { addresses: string[]; expiresAt: number }>();
+const DNS_CACHE_TTL = 30000;
+
+async function resolveHostAddresses(hostname: string): Promise<string[]> {
+  if (isIP(hostname)) return [hostname];
+
+  const cached = dnsCache.get(hostname);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.addresses;
+  }
+
+  const results = await lookup(hostname, { all: true, verbatim: true });
+  const addresses = results.map((result) => result.address);
+  dnsCache.set(hostname, { addresses, expiresAt: Date.now() + DNS_CACHE_TTL });
+
+  if (dnsCache.size > 1000) {
+    const oldest = dnsCache.keys().next().value;
+    if (oldest) dnsCache.delete(oldest);
+  }
+
+  return addresses;
+}
+
+export async function isHostSafe(hostname: string): Promise<{
+  safe: boolean;
+  reason?: string;
+  unresolved?: boolean;
+}> {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, "");
+  if (isBlockedHostname(host)) {
+    return { safe: false, reason: PRIVATE_NETWORK_REASON };
+  }
+
+  let addresses: string[];
+  try {
+    addresses = await resolveHostAddresses(host);
+  } catch {
+    return {
+      safe: false,
+      reason: `Could not resolve host ${host}`,
+      unresolved: true,
+    };
+  }
+
+  const blocked = addresses.find((address) => isPrivateAddress(address));
+  if (blocked) {
+    return {
+      safe: false,
+      reason: `${host} resolves to a private or reserved address (${blocked})`,
+    };
+  }
+
+  return { safe: true };
+}
+
+export async function isUrlSafeResolved(urlString: string): Promise<{
+  safe: boolean;
+  reason?: string;
+  unresolved?: boolean;
+}> {
+  const check = isUrlSafe(urlString);
+  if (!check.safe) return check;
+  return isHostSafe(new URL(urlString).hostname);
+}
+
 export function isUrlSafe(urlString: string): {
   safe: boolean;
   reason?: string;
@@ -9,31 +209,8 @@ export function isUrlSafe(urlString: string): {
       return { safe: false, reason: "Only HTTP and HTTPS protocols allowed" };
     }
 
-    const hostname = url.hostname.toLowerCase();
-
-    const blockedPatterns = [
-      /^localhost$/i,
-      /^127\./,
-      /^0\./,
-      /^10\./,
-      /^172\.(1[6-9]|2[0-9]|3[0-1])\./,
-      /^192\.168\./,
-      /^169\.254\./,
-      /^::1$/,
-      /^fc00:/,
-      /^fe80:/,
-      /^metadata\.google\.internal$/i,
-      /^169\.254\.169\.254$/,
-    ];
-
-    for (const pattern of blockedPatterns) {
-      if (pattern.test(hostname)) {
-        return {
-          safe: false,
-          reason:
-            "Access to private networks and cloud metadata endpoints is blocked",
-        };
-      }
+    if (isBlockedHostname(url.hostname)) {
+      return { safe: false, reason: PRIVATE_NETWORK_REASON };
     }
 
     const blockedPorts = [
@@ -86,43 +263,142 @@ export function sanitizeFilename(filename: string): string {
   return filename.replace(/[^a-zA-Z0-9._-]/g, "_");
 }
 
-export function isWithinRateLimit(
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: number;
+}
+
+export function consumeRateLimit(
   rateLimitMap: Map<string, { count: number; resetAt: number }>,
-  ip: string,
+  id: string,
   maxRequests: number,
-  enabled: boolean,
-): boolean {
-  if (!enabled) return true;
-
+  windowMs: number,
+  cost = 1,
+): RateLimitResult {
   const now = Date.now();
-  const limit = rateLimitMap.get(ip);
+  let limit = rateLimitMap.get(id);
 
   if (!limit || now > limit.resetAt) {
-    rateLimitMap.set(ip, { count: 1, resetAt: now + 3600000 });
-    return true;
+    limit = { count: 0, resetAt: now + windowMs };
+    rateLimitMap.set(id, limit);
   }
 
-  if (limit.count >= maxRequests) return false;
+  // Requests that cost more than what is left are refused outright
+  if (limit.count + cost > maxRequests) {
+    return {
+      allowed: false,
+      limit: maxRequests,
+      remaining: Math.max(maxRequests - limit.count, 0),
+      resetAt: limit.resetAt,
+    };
+  }
 
-  limit.count++;
-  return true;
+  limit.count += cost;
+  return {
+    allowed: true,
+    limit: maxRequests,
+    remaining: maxRequests - limit.count,
+    resetAt: limit.resetAt,
+  };
 }
 
+// Hop-by-hop and framing headers that Chromium manages itself
+const FORBIDDEN_HEADERS = [
+  "host",
+  "content-length",
+  "connection",
+  "transfer-encoding",
+  "keep-alive",
+  "upgrade",
+  "te",
+  "trailer",
+  "cookie",
+];
+
+const FIT_MODES = ["cover", "contain", "inside"];
+
+// One year, in seconds
+const MAX_TTL = 31536000;
+
+// Encoder effort ranges per format; JPEG and PDF have no effort setting
+const EFFORT_RANGES: Record<string, [number, number]> = {
+  webp: [0, 6],
+  avif: [0, 9],
+  png: [1, 10],
+};
+
+const MAX_OUTPUT_WIDTH = 7680;
+const MAX_OUTPUT_HEIGHT = 4320;
+
 export function validateScreenshotParams(params: {
   width?: number;
   height?: number;
+  deviceViewport?: { width: number; height: number };
   delay?: number;
   quality?: number;
   format?: string;
+  paperSize?: string;
+  margin?: { top?: string; right?: string; bottom?: string; left?: string };
+  headerTemplate?: string;
+  footerTemplate?: string;
+  selector?: string;
+  padding?: number;
+  deviceScaleFactor?: number;
+  css?: string;
+  js?: string;
+  hideSelectors?: string[];
+  removeSelectors?: string[];
+  block?: string[];
+  headers?: Record<string, string>;
+  cookies?: { name: string; value: string }[];
+  localStorage?: Record<string, string>;
+  actions?: PageAction[];
+  resize?: { width?: number; height?: number; fit: string };
+  sizes?: { width?: number; height?: number; fit: string }[];
+  encoding?: { compressionLevel?: number; effort?: number; palette?: boolean };
+  ttl?: number;
+  maxAge?: number;
 }): { valid: boolean; reason?: string } {
-  if (params.width && (params.width < 320 || params.width > 3840)) {
+  // A device preset's own viewport may be smaller than the user minimums
+  const presetWidth = params.width === params.deviceViewport?.width;
+  const presetHeight = params.height === params.deviceViewport?.height;
+
+  if (
+    params.width &&
+    !presetWidth &&
+    (params.width < 320 || params.width > 3840)
+  ) {
     return { valid: false, reason: "Width must be between 320 and 3840" };
   }
 
-  if (params.height && (params.height < 240 || params.height > 2160)) {
+  if (
+    params.height &&
+    !presetHeight &&
+    (params.height < 240 || params.height > 2160)
+  ) {
     return { valid: false, reason: "Height must be between 240 and 2160" };
   }
 
+  const scale = params.deviceScaleFactor || 1;
+  if (scale < 0.5 || scale > 4) {
+    return {
+      valid: false,
+      reason: "Device scale factor must be between 0.5 and 4",
+    };
+  }
+
+  if (
+    (params.width && params.width * scale > MAX_OUTPUT_WIDTH) ||
+    (params.height && params.height * scale > MAX_OUTPUT_HEIGHT)
+  ) {
+    return {
+      valid: false,
+      reason: `Output size (width/height x deviceScaleFactor) must not exceed ${MAX_OUTPUT_WIDTH}x${MAX_OUTPUT_HEIGHT}`,
+    };
+  }
+
   if (params.delay && (params.delay < 0 || params.delay > 10000)) {
     return { valid: false, reason: "Delay must be between 0 and 10000ms" };
   }
@@ -133,9 +409,374 @@ export function validateScreenshotParams(params: {
 
   if (
     params.format &&
-    !["webp", "png", "jpeg", "jpg"].includes(params.format)
+    !["webp", "avif", "png", "jpeg", "jpg", "pdf"].includes(params.format)
+  ) {
+    return {
+      valid: false,
+      reason: "Format must be webp, avif, png, jpeg, or pdf",
+    };
+  }
+
+  const compressionLevel = params.encoding?.compressionLevel;
+  if (
+    compressionLevel !== undefined &&
+    !(
+      Number.isInteger(compressionLevel) &&
+      compressionLevel >= 0 &&
+      compressionLevel <= 9
+    )
+  ) {
+    return {
+      valid: false,
+      reason: "compressionLevel must be an integer between 0 and 9",
+    };
+  }
+
+  const effort = params.encoding?.effort;
+  if (effort !== undefined) {
+    const range = EFFORT_RANGES[params.format || "webp"];
+    if (!range) {
+      return {
+        valid: false,
+        reason: `effort is not supported for ${params.format}`,
+      };
+    }
+    // Full-colour PNG is encoded with compressionLevel alone
+    if (params.format === "png" && !params.encoding?.palette) {
+      return {
+        valid: false,
+        reason: "effort for png requires palette=true",
+      };
+    }
+    if (!(
+      Number.isInteger(effort) &&
+      effort >= range[0] &&
+      effort <= range[1]
+    )) {
+      return {
+        valid: false,
+        reason: `effort for ${params.format || "webp"} must be an integer between ${range[0]} and ${range[1]}`,
+      };
+    }
+  }
+
+  if (
+    params.ttl !== undefined &&
+    !(Number.isInteger(params.ttl) && params.ttl >= 1 && params.ttl <= MAX_TTL)
+  ) {
+    return {
+      valid: false,
+      reason: `ttl must be a whole number of seconds between 1 and ${MAX_TTL}`,
+    };
+  }
+
+  if (
+    params.maxAge !== undefined &&
+    !(Number.isInteger(params.maxAge) && params.maxAge >= 0)
+  ) {
+    return {
+      valid: false,
+      reason: "maxAge must be a whole number of seconds",
+    };
+  }
+
+  const paperSizes = [
+    "letter",
+    "legal",
+    "tabloid",
+    "ledger",
+    "a0",
+    "a1",
+    "a2",
+    "a3",
+    "a4",
+    "a5",
+    "a6",
+  ];
+  if (
+    params.paperSize &&
+    !paperSizes.includes(params.paperSize.toLowerCase())
   ) {
-    return { valid: false, reason: "Format must be webp, png, or jpeg" };
+    return {
+      valid: false,
+      reason: "Paper size must be Letter, Legal, Tabloid, Ledger, or A0-A6",
+    };
+  }
+
+  if (params.margin) {
+    for (const value of Object.values(params.margin)) {
+      if (value && !/^\d+(\.\d+)?(px|in|cm|mm)?$/.test(String(value))) {
+        return {
+          valid: false,
+          reason: "Margins must be lengths like 10px, 1cm, 0.5in or 5mm",
+        };
+      }
+    }
+  }
+
+  if (
+    (params.headerTemplate && params.headerTemplate.length > 10000) ||
+    (params.footerTemplate && params.footerTemplate.length > 10000)
+  ) {
+    return {
+      valid: false,
+      reason: "Header and footer templates must be under 10000 characters",
+    };
+  }
+
+  if (params.selector && params.selector.length > 500) {
+    return { valid: false, reason: "Selector must be under 500 characters" };
+  }
+
+  if (params.padding && (params.padding < 0 || params.padding > 500)) {
+    return { valid: false, reason: "Padding must be between 0 and 500" };
+  }
+
+  if (
+    (params.css && params.css.length > 50000) ||
+    (params.js && params.js.length > 50000)
+  ) {
+    return {
+      valid: false,
+      reason: "css and js must be under 50000 characters",
+    };
+  }
+
+  for (const selectors of [params.hideSelectors, params.removeSelectors]) {
+    if (!selectors) continue;
+    if (selectors.length > 50) {
+      return {
+        valid: false,
+        reason: "At most 50 selectors can be hidden or removed",
+      };
+    }
+    if (selectors.some((selector) => selector.length > 500)) {
+      return { valid: false, reason: "Selector must be under 500 characters" };
+    }
+    if (selectors.some((selector) => /[{}]/.test(selector))) {
+      return { valid: false, reason: "Selectors must not contain braces" };
+    }
+  }
+
+  const unknownType = params.block?.find(
+    (type) => !BLOCKABLE_RESOURCE_TYPES.includes(type),
+  );
+  if (unknownType) {
+    return {
+      valid: false,
+      reason: `Cannot block '${unknownType}', use ${BLOCKABLE_RESOURCE_TYPES.join(", ")} or none`,
+    };
+  }
+
+  if (params.headers) {
+    const entries = Object.entries(params.headers);
+    if (entries.length > 50) {
+      return { valid: false, reason: "At most 50 headers can be set" };
+    }
+    for (const [name, value] of entries) {
+      if (!/^[!#$%&'*+.^_`|~0-9a-z-]+$/i.test(name)) {
+        return { valid: false, reason: `Invalid header name '${name}'` };
+      }
+      if (FORBIDDEN_HEADERS.includes(name.toLowerCase())) {
+        return { valid: false, reason: `Header '${name}' cannot be set` };
+      }
+      if (typeof value !== "string" || /[\r\n\0]/.test(value)) {
+        return {
+          valid: false,
+          reason: `Header '${name}' must be a single-line string`,
+        };
+      }
+      if (value.length > 8192) {
+        return {
+          valid: false,
+          reason: "Header values must be under 8192 characters",
+        };
+      }
+    }
+  }
+
+  if (params.cookies) {
+    if (params.cookies.length > 50) {
+      return { valid: false, reason: "At most 50 cookies can be set" };
+    }
+    for (const cookie of params.cookies) {
+      if (
+        !cookie ||
+        typeof cookie.name !== "string" ||
+        typeof cookie.value !== "string" ||
+        !/^[!#$%&'*+.^_`|~0-9a-z-]+$/i.test(cookie.name)
+      ) {
+        return {
+          valid: false,
+          reason: "Cookies need a valid string name and value",
+        };
+      }
+      if (/[;\r\n\0]/.test(cookie.value) || cookie.value.length > 4096) {
+        return {
+          valid: false,
+          reason: `Cookie '${cookie.name}' has an invalid value`,
+        };
+      }
+    }
+  }
+
+  if (params.localStorage) {
+    const entries = Object.entries(params.localStorage);
+    if (entries.length > 100) {
+      return {
+        valid: false,
+        reason: "At most 100 localStorage keys can be set",
+      };
+    }
+    if (entries.some(([, value]) => typeof value !== "string")) {
+      return { valid: false, reason: "localStorage values must be strings" };
+    }
+    const size = entries.reduce(
+      (sum, [key, value]) => sum + key.length + value.length,
+      0,
+    );
+    if (size > 100000) {
+      return {
+        valid: false,
+        reason: "localStorage data must be under 100000 characters",
+      };
+    }
+  }
+
+  if (params.sizes && params.sizes.length > 5) {
+    return { valid: false, reason: "At most 5 sizes per request" };
+  }
+
+  for (const size of [params.resize, ...(params.sizes || [])]) {
+    if (!size) continue;
+    if (size.width === undefined && size.height === undefined) {
+      return { valid: false, reason: "Sizes need a width, a height or both" };
+    }
+    for (const dimension of [size.width, size.height]) {
+      if (
+        dimension !== undefined &&
+        !(Number.isInteger(dimension) && dimension >= 16 && dimension <= 7680)
+      ) {
+        return {
+          valid: false,
+          reason: "Resize width and height must be between 16 and 7680",
+        };
+      }
+    }
+    if (!FIT_MODES.includes(size.fit)) {
+      return {
+        valid: false,
+        reason: `Fit must be one of ${FIT_MODES.join(", ")}`,
+      };
+    }
+  }
+
+  if (params.actions !== undefined) {
+    const actionsCheck = validateActions(params.actions);
+    if (!actionsCheck.valid) return actionsCheck;
+  }
+
+  return { valid: true };
+}
+
+function validateActions(actions: PageAction[]): {
+  valid: boolean;
+  reason?: string;
+} {
+  if (!Array.isArray(actions)) {
+    return { valid: false, reason: "actions must be an array" };
+  }
+  if (actions.length > MAX_ACTIONS) {
+    return { valid: false, reason: `At most ${MAX_ACTIONS} actions allowed` };
+  }
+
+  for (const [index, action] of actions.entries()) {
+    const step = `Action ${index + 1}`;
+    if (!action || typeof action !== "object") {
+      return { valid: false, reason: `${step} must be an object` };
+    }
+    if (!ACTION_TYPES.includes(action.type)) {
+      return {
+        valid: false,
+        reason: `${step} type must be one of ${ACTION_TYPES.join(", ")}`,
+      };
+    }
+
+    if (action.selector !== undefined) {
+      if (typeof action.selector !== "string" || action.selector.length > 500) {
+        return {
+          valid: false,
+          reason: `${step} selector must be a string under 500 characters`,
+        };
+      }
+    }
+    if (SELECTOR_ACTIONS.includes(action.type) && !action.selector) {
+      return {
+        valid: false,
+        reason: `${step} (${action.type}) needs a selector`,
+      };
+    }
+
+    if (
+      action.type === "type" &&
+      (typeof action.text !== "string" || action.text.length > 5000)
+    ) {
+      return {
+        valid: false,
+        reason: `${step} (type) needs text under 5000 characters`,
+      };
+    }
+
+    if (action.type === "select") {
+      const values = Array.isArray(action.value)
+        ? action.value
+        : [action.value];
+      if (values.length === 0 || values.some((v) => typeof v !== "string")) {
+        return {
+          valid: false,
+          reason: `${step} (select) needs a string or string[] value`,
+        };
+      }
+    }
+
+    if (
+      action.type === "scroll" &&
+      !action.selector &&
+      [action.x, action.y].some((v) => v !== undefined && !Number.isFinite(v))
+    ) {
+      return {
+        valid: false,
+        reason: `${step} (scroll) x and y must be numbers`,
+      };
+    }
+
+    if (
+      action.type === "wait" &&
+      !(
+        typeof action.duration === "number" &&
+        action.duration >= 0 &&
+        action.duration <= 10000
+      )
+    ) {
+      return {
+        valid: false,
+        reason: `${step} (wait) duration must be between 0 and 10000ms`,
+      };
+    }
+
+    if (
+      action.timeout !== undefined &&
+      !(
+        typeof action.timeout === "number" &&
+        action.timeout > 0 &&
+        action.timeout <= MAX_ACTION_TIMEOUT
+      )
+    ) {
+      return {
+        valid: false,
+        reason: `${step} timeout must be between 1 and ${MAX_ACTION_TIMEOUT}ms`,
+      };
+    }
   }
 
   return { valid: true };
@@ -1,21 +1,99 @@
 #!/usr/bin/env bun
 
-import puppeteer, { Browser, Page } from "puppeteer";
+import { TimeoutError } from "puppeteer";
+import type { ElementHandle, Page, PaperFormat } from "puppeteer";
 import sharp from "sharp";
-import { S3Client, PutObjectCommand } from "@aws-sdk/client-s3";
-import { createHash } from "crypto";
-import { existsSync, mkdirSync, statSync, unlinkSync, readdirSync } from "fs";
-import { join } from "path";
-import { isUrlSafe, validateScreenshotParams } from "./security";
+import { S3Client } from "@aws-sdk/client-s3";
+import { AsyncLocalStorage } from "async_hooks";
+import { createHash, randomUUID } from "crypto";
+import {
+  consumeRateLimit,
+  isHostSafe,
+  isPrivateAddress,
+  isUrlSafe,
+  isUrlSafeResolved,
+  sanitizeFilename,
+  validateScreenshotParams,
+  type RateLimitResult,
+} from "./security";
+import {
+  createKeyStore,
+  getKeyId,
+  getRequestApiKey,
+  getRequestOrigin,
+  isOriginAllowed,
+  type ApiKey,
+} from "./auth";
+import {
+  createSignedUrl,
+  isSignedParamValue,
+  verifySignedParams,
+  type SignedParamValue,
+} from "./signing";
+import { listDevices, resolveDevice } from "./devices";
+import { loadCookieBannerSelectors } from "./banners";
+import { isBlockedHost, loadBlocklist } from "./blocklist";
+import {
+  ActionError,
+  runActions,
+  type ActionResult,
+  type PageAction,
+} from "./actions";
+import {
+  createLocalStorage,
+  createMemoryStorage,
+  createS3Storage,
+  type Storage,
+} from "./storage";
+import { createPagePool, PoolTimeoutError } from "./pool";
+import { diffImages, DiffSizeError } from "./diff";
+import { createJobQueue, QueueFullError } from "./jobs";
+import {
+  createMonitorStore,
+  MONITOR_FILE_PREFIX,
+  type MonitorInput,
+} from "./monitors";
+import { minimumInterval, parseSchedule } from "./schedule";
+import {
+  createMetricsRegistry,
+  DURATION_BUCKETS,
+  SIZE_BUCKETS,
+} from "./metrics";
+import { createLogger } from "./logger";
+import {
+  createCaptureIndex,
+  CAPTURE_RECORD_SUFFIX,
+  isCaptureRecord,
+  type CaptureFilter,
+} from "./captures";
+import { createZipWriter } from "./zip";
+import { extractMetadata, type PageMetadata } from "./metadata";
+import {
+  createTemplateStore,
+  getRenderKey,
+  isValidTemplateName,
+  renderTemplate,
+  type TemplateVariables,
+} from "./templates";
 
 const CONFIG = {
   PORT: parseInt(process.env.PORT || "3000"),
   HOST: process.env.HOST || "0.0.0.0",
+  LOG_LEVEL: process.env.LOG_LEVEL || "info",
   IMAGES_DIR: process.env.IMAGES_DIR || "./images",
+  STORAGE_BACKEND: process.env.STORAGE_BACKEND || "local",
   ENABLE_RATE_LIMIT: process.env.ENABLE_RATE_LIMIT !== "false",
   MAX_REQUESTS_PER_IP: parseInt(process.env.MAX_REQUESTS_PER_IP || "100"),
+  REQUIRE_API_KEY: process.env.REQUIRE_API_KEY === "true",
+  API_KEYS_FILE: process.env.API_KEYS_FILE || "./api-keys.json",
+  API_USAGE_FILE: process.env.API_USAGE_FILE || "./api-usage.json",
+  CAPTURES_FILE: process.env.CAPTURES_FILE || "./captures.json",
+  URL_SIGNING_SECRET: process.env.URL_SIGNING_SECRET || "",
+  REQUIRE_SIGNED_URLS: process.env.REQUIRE_SIGNED_URLS === "true",
   WEBP_QUALITY: parseInt(process.env.WEBP_QUALITY || "80"),
   SCREENSHOT_TIMEOUT: parseInt(process.env.SCREENSHOT_TIMEOUT || "30000"),
+  COOKIE_BANNER_SELECTORS_FILE: process.env.COOKIE_BANNER_SELECTORS_FILE || "",
+  BLOCKLIST_FILE: process.env.BLOCKLIST_FILE || "",
   S3_ENABLED: process.env.S3_ENABLED === "true",
   S3_BUCKET: process.env.S3_BUCKET || "",
   S3_REGION: process.env.S3_REGION || "auto",
@@ -23,51 +101,264 @@ const CONFIG = {
   S3_ACCESS_KEY: process.env.S3_ACCESS_KEY || "",
   S3_SECRET_KEY: process.env.S3_SECRET_KEY || "",
   S3_PUBLIC_URL: process.env.S3_PUBLIC_URL || "",
+  S3_PREFIX: process.env.S3_PREFIX || "",
+  S3_FORCE_PATH_STYLE: process.env.S3_FORCE_PATH_STYLE === "true",
   AUTO_CLEANUP_ENABLED: process.env.AUTO_CLEANUP_ENABLED === "true",
   MAX_STORAGE_GB: parseInt(process.env.MAX_STORAGE_GB || "10"),
   MAX_FILE_AGE_DAYS: parseInt(process.env.MAX_FILE_AGE_DAYS || "7"),
+  MAX_CONCURRENT_PAGES: parseInt(process.env.MAX_CONCURRENT_PAGES || "5"),
+  PAGE_QUEUE_TIMEOUT: parseInt(process.env.PAGE_QUEUE_TIMEOUT || "30000"),
+  BROWSER_RECYCLE_AFTER: parseInt(process.env.BROWSER_RECYCLE_AFTER || "500"),
+  MAX_CONCURRENT_JOBS: parseInt(process.env.MAX_CONCURRENT_JOBS || "5"),
+  JOB_TTL_MINUTES: parseInt(process.env.JOB_TTL_MINUTES || "60"),
+  MAX_QUEUED_JOBS: parseInt(process.env.MAX_QUEUED_JOBS || "100"),
+  MAX_TRACKED_JOBS: parseInt(process.env.MAX_TRACKED_JOBS || "1000"),
+  WEBHOOK_SECRET: process.env.WEBHOOK_SECRET || "",
+  WEBHOOK_MAX_RETRIES: parseInt(process.env.WEBHOOK_MAX_RETRIES || "5"),
+  MONITORS_FILE: process.env.MONITORS_FILE || "./monitors.json",
+  MAX_MONITORS: parseInt(process.env.MAX_MONITORS || "50"),
+  MONITOR_MIN_INTERVAL_MINUTES: parseInt(
+    process.env.MONITOR_MIN_INTERVAL_MINUTES || "5",
+  ),
+  MONITOR_HISTORY_LIMIT: parseInt(process.env.MONITOR_HISTORY_LIMIT || "100"),
+  MONITOR_RETENTION_DAYS: parseInt(process.env.MONITOR_RETENTION_DAYS || "30"),
+  MONITOR_CHANGE_THRESHOLD: parseInt(
+    process.env.MONITOR_CHANGE_THRESHOLD || "5",
+  ),
+  MAX_BATCH_ITEMS: parseInt(process.env.MAX_BATCH_ITEMS || "50"),
+  BATCH_CONCURRENCY: parseInt(process.env.BATCH_CONCURRENCY || "3"),
+  TEMPLATES_DIR: process.env.TEMPLATES_DIR || "./templates",
+  MAX_HTML_BYTES: parseInt(process.env.MAX_HTML_BYTES || "1000000"),
 };
 
-if (!existsSync(CONFIG.IMAGES_DIR)) {
-  mkdirSync(CONFIG.IMAGES_DIR, { recursive: true });
+const rateLimitMap = new Map<string, { count: number; resetAt: number }>();
+const logger = createLogger({ level: CONFIG.LOG_LEVEL });
+
+interface RequestLog {
+  requestId: string;
+  apiKey?: string;
+  target?: string;
+  options?: object;
+  cache?: string;
+  batchItems?: number;
+  timings: Record<string, number>;
+  error?: { code: string; message: string };
 }
 
-const rateLimitMap = new Map<string, { count: number; resetAt: number }>();
-const stats = {
-  totalRequests: 0,
-  cacheHits: 0,
-  cacheMisses: 0,
-  errors: 0,
-  uploadedToS3: 0,
-};
+// Lets capture, cache and encode code add to the current request's log
+// line without threading it through every call
+const requestContext = new AsyncLocalStorage<RequestLog>();
 
-let s3Client: S3Client | null = null;
-if (CONFIG.S3_ENABLED) {
-  s3Client = new S3Client({
-    region: CONFIG.S3_REGION,
-    endpoint: CONFIG.S3_ENDPOINT,
-    credentials: {
-      accessKeyId: CONFIG.S3_ACCESS_KEY,
-      secretAccessKey: CONFIG.S3_SECRET_KEY,
-    },
+function annotateRequest(fields: Partial<RequestLog>): void {
+  const log = requestContext.getStore();
+  if (log) Object.assign(log, fields);
+}
+
+function recordTiming(name: string, seconds: number): void {
+  const log = requestContext.getStore();
+  if (log) {
+    log.timings[name] = (log.timings[name] || 0) + Math.round(seconds * 1000);
+  }
+}
+
+const metrics = createMetricsRegistry("macrolink_");
+
+const httpRequests = metrics.counter({
+  name: "http_requests_total",
+  help: "HTTP requests by route, method, status and response format",
+  labelNames: ["route", "method", "status", "format"],
+});
+const httpDuration = metrics.histogram({
+  name: "http_request_duration_seconds",
+  help: "Time to produce a response, by route",
+  buckets: DURATION_BUCKETS,
+  labelNames: ["route"],
+});
+const cacheLookups = metrics.counter({
+  name: "cache_lookups_total",
+  help: "Screenshot cache lookups by result (hit or miss)",
+  labelNames: ["result"],
+});
+const coalescedRenders = metrics.counter({
+  name: "coalesced_renders_total",
+  help: "Requests that joined an identical render already in progress",
+});
+const unexpectedErrors = metrics.counter({
+  name: "errors_total",
+  help: "Failures caused by the server itself (500 and 503 responses)",
+});
+const s3Uploads = metrics.counter({
+  name: "s3_uploads_total",
+  help: "Screenshots uploaded to S3/R2",
+});
+const rateLimited = metrics.counter({
+  name: "rate_limited_total",
+  help: "Requests rejected by rate limits, by scope (ip or api_key)",
+  labelNames: ["scope"],
+});
+const blockedUrls = metrics.counter({
+  name: "blocked_urls_total",
+  help: "URLs refused by the private-network checks, by where they came from",
+  labelNames: ["source"],
+});
+const blockedResources = metrics.counter({
+  name: "blocked_resources_total",
+  help: "Page requests blocked by resource type or tracker blocklist",
+  labelNames: ["reason"],
+});
+const captureDuration = metrics.histogram({
+  name: "capture_duration_seconds",
+  help: "Time a browser page spends on one capture",
+  buckets: DURATION_BUCKETS,
+});
+const navigationDuration = metrics.histogram({
+  name: "navigation_duration_seconds",
+  help: "Time until the page reaches network idle",
+  buckets: DURATION_BUCKETS,
+});
+const encodeDuration = metrics.histogram({
+  name: "encode_duration_seconds",
+  help: "Time spent cropping, resizing and encoding images, by format",
+  buckets: DURATION_BUCKETS,
+  labelNames: ["format"],
+});
+const uploadDuration = metrics.histogram({
+  name: "upload_duration_seconds",
+  help: "Time spent uploading to S3/R2",
+  buckets: DURATION_BUCKETS,
+});
+const outputBytes = metrics.histogram({
+  name: "output_bytes",
+  help: "Size of generated images and PDFs, by format",
+  buckets: SIZE_BUCKETS,
+  labelNames: ["format"],
+});
+
+let s3Storage: Storage | null = null;
+if (CONFIG.S3_ENABLED || CONFIG.STORAGE_BACKEND === "s3") {
+  s3Storage = createS3Storage({
+    client: new S3Client({
+      region: CONFIG.S3_REGION,
+      endpoint: CONFIG.S3_ENDPOINT || undefined,
+      forcePathStyle: CONFIG.S3_FORCE_PATH_STYLE,
+      credentials: {
+        accessKeyId: CONFIG.S3_ACCESS_KEY,
+        secretAccessKey: CONFIG.S3_SECRET_KEY,
+      },
+    }),
+    bucket: CONFIG.S3_BUCKET,
+    prefix: CONFIG.S3_PREFIX,
   });
 }
 
-function checkRateLimit(ip: string): boolean {
-  if (!CONFIG.ENABLE_RATE_LIMIT) return true;
+const storage: Storage =
+  CONFIG.STORAGE_BACKEND === "s3" && s3Storage
+    ? s3Storage
+    : CONFIG.STORAGE_BACKEND === "memory"
+      ? createMemoryStorage()
+      : createLocalStorage(CONFIG.IMAGES_DIR);
 
-  const now = Date.now();
-  const limit = rateLimitMap.get(ip);
+const keyStore = createKeyStore({
+  file: CONFIG.API_KEYS_FILE,
+  usageFile: CONFIG.API_USAGE_FILE,
+});
+
+setInterval(() => keyStore.flush(), 60000);
+
+const captureIndex = createCaptureIndex({ storage });
+const templateStore = createTemplateStore({ dir: CONFIG.TEMPLATES_DIR });
 
-  if (!limit || now > limit.resetAt) {
-    rateLimitMap.set(ip, { count: 1, resetAt: now + 3600000 });
-    return true;
+captureIndex
+  .importFile(CONFIG.CAPTURES_FILE)
+  .then((imported) => {
+    if (imported > 0) logger.info("capture_index_imported", { imported });
+  })
+  .catch((error) =>
+    logger.error("capture_index_import_failed", {
+      message: error instanceof Error ? error.message : String(error),
+    }),
+  );
+
+function checkRateLimit(ip: string, cost = 1): RateLimitResult {
+  if (!CONFIG.ENABLE_RATE_LIMIT) {
+    return { allowed: true, limit: 0, remaining: Infinity, resetAt: 0 };
   }
 
-  if (limit.count >= CONFIG.MAX_REQUESTS_PER_IP) return false;
+  return consumeRateLimit(
+    rateLimitMap,
+    ip,
+    CONFIG.MAX_REQUESTS_PER_IP,
+    3600000,
+    cost,
+  );
+}
 
-  limit.count++;
-  return true;
+function getCacheVariant(options: ScreenshotOptions): object | undefined {
+  const variant: Record<string, unknown> = {};
+  if (options.pdf) variant.pdf = options.pdf;
+  if (options.selector) {
+    variant.selector = options.selector;
+    variant.padding = options.padding || 0;
+  }
+  if (options.device) variant.device = options.device;
+  if (options.deviceScaleFactor && options.deviceScaleFactor !== 1) {
+    variant.deviceScaleFactor = options.deviceScaleFactor;
+  }
+  if (options.isMobile) variant.isMobile = true;
+  if (options.hasTouch) variant.hasTouch = true;
+  if (options.css) variant.css = options.css;
+  if (options.js) variant.js = options.js;
+  if (options.hideSelectors?.length) {
+    variant.hideSelectors = options.hideSelectors;
+  }
+  if (options.removeSelectors?.length) {
+    variant.removeSelectors = options.removeSelectors;
+  }
+  if (options.blockCookieBanners) variant.blockCookieBanners = true;
+  if (options.block) {
+    const block = [...new Set(options.block)].sort();
+    if (block.join(",") !== DEFAULT_BLOCKED_TYPES.join(",")) {
+      variant.block = block;
+    }
+  }
+  if (options.blockTrackers === false) variant.blockTrackers = false;
+  if (options.allowNetwork) variant.allowNetwork = true;
+  if (options.resize) variant.resize = options.resize;
+  const encoding = Object.fromEntries(
+    Object.entries(options.encoding).filter(([, value]) => value !== undefined),
+  );
+  if (Object.keys(encoding).length > 0) variant.encoding = encoding;
+  if (options.actions?.length) {
+    // Fixed key order so equivalent action lists hash the same
+    variant.actions = options.actions.map((action) => ({
+      type: action.type,
+      selector: action.selector,
+      text: action.text,
+      value: action.value,
+      x: action.x,
+      y: action.y,
+      duration: action.duration,
+      timeout: action.timeout,
+      optional: action.optional || false,
+    }));
+  }
+  return Object.keys(variant).length > 0 ? variant : undefined;
+}
+
+// Options that shaped a stored file, for the capture index and archive
+// manifests. Credentials are never part of the cache variant.
+function getCaptureOptions(
+  options: ScreenshotOptions,
+): Record<string, unknown> {
+  return {
+    width: options.width,
+    height: options.height,
+    format: options.format,
+    quality: options.quality,
+    fullPage: options.fullPage,
+    dark: options.dark,
+    ...getCacheVariant(options),
+  };
 }
 
 function getImageFilename(
@@ -77,47 +368,73 @@ function getImageFilename(
   dark: boolean,
   format: string,
   fullPage: boolean,
+  variant?: object,
 ): string {
-  const hash = createHash("md5")
-    .update(`${url}:${width}:${height}:${dark}:${format}:${fullPage}`)
-    .digest("hex");
+  let key = `${url}:${width}:${height}:${dark}:${format}:${fullPage}`;
+  if (variant) {
+    key += `:${JSON.stringify(variant)}`;
+  }
+  const hash = createHash("md5").update(key).digest("hex");
   return `${hash}.${format}`;
 }
 
 const CORS_HEADERS = {
   "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
-  "Access-Control-Allow-Headers": "Content-Type",
+  "Access-Control-Allow-Methods": "GET, POST, PATCH, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers":
+    "Content-Type, Authorization, X-API-Key, X-Request-Id",
+  "Access-Control-Expose-Headers":
+    "X-RateLimit-Limit, X-RateLimit-Remaining, X-RateLimit-Reset, Retry-After, X-Diff-Mismatch, X-Diff-Passed, X-Target-Status, X-Request-Id",
 };
 
 const startTime = Date.now();
-let browser: Browser | null = null;
-
-async function getBrowser(): Promise<Browser> {
-  if (!browser) {
-    browser = await puppeteer.launch({
-      headless: true,
-      args: [
-        "--no-sandbox",
-        "--disable-setuid-sandbox",
-        "--disable-dev-shm-usage",
-        "--disable-gpu",
-        "--disable-web-security",
-        "--disable-features=IsolateOrigins,site-per-process",
-        "--disable-blink-features=AutomationControlled",
-      ],
-    });
-  }
-  return browser;
-}
+metrics.collect({
+  name: "uptime_seconds",
+  help: "Seconds since the server started",
+  collect: () => Math.floor((Date.now() - startTime) / 1000),
+});
 
-interface PageMetadata {
-  title: string;
-  description: string | null;
-  ogImage: string | null;
-  favicon: string | null;
-  url: string;
-}
+const pagePool = createPagePool({
+  maxPages: CONFIG.MAX_CONCURRENT_PAGES,
+  queueTimeout: CONFIG.PAGE_QUEUE_TIMEOUT,
+  recycleAfter: CONFIG.BROWSER_RECYCLE_AFTER,
+  launchArgs: [
+    "--no-sandbox",
+    "--disable-setuid-sandbox",
+    "--disable-dev-shm-usage",
+    "--disable-gpu",
+    "--disable-features=IsolateOrigins,site-per-process",
+    "--disable-blink-features=AutomationControlled",
+  ],
+});
+
+metrics.collect({
+  name: "pool_active_pages",
+  help: "Browser pages currently in use",
+  collect: () => pagePool.status().activePages,
+});
+metrics.collect({
+  name: "pool_max_pages",
+  help: "Maximum concurrent browser pages",
+  collect: () => pagePool.status().maxPages,
+});
+metrics.collect({
+  name: "pool_queued",
+  help: "Captures waiting for a browser page",
+  collect: () => pagePool.status().queued,
+});
+metrics.collect({
+  name: "browser_launches_total",
+  help: "Browser launches, including recycles and crash restarts",
+  type: "counter",
+  collect: () => pagePool.status().launches,
+});
+metrics.collect({
+  name: "browser_crashes_total",
+  help: "Browsers that disconnected unexpectedly",
+  type: "counter",
+  collect: () => pagePool.status().crashes,
+});
 
 interface ScreenshotRequestBody {
   url?: string;
@@ -132,52 +449,473 @@ interface ScreenshotRequestBody {
   waitFor?: string;
   userAgent?: string;
   cache?: string;
+  ttl?: string | number;
+  maxAge?: string | number;
   uploadToS3?: boolean;
   metadata?: boolean;
   crop?: { x: number; y: number; width: number; height: number };
+  paperSize?: string;
+  landscape?: boolean | string;
+  printBackground?: boolean | string;
+  margin?: string | PdfMargin;
+  headerTemplate?: string;
+  footerTemplate?: string;
+  selector?: string;
+  padding?: string | number;
+  device?: string;
+  deviceScaleFactor?: string | number;
+  isMobile?: boolean | string;
+  hasTouch?: boolean | string;
+  css?: string;
+  js?: string;
+  hideSelectors?: string | string[];
+  removeSelectors?: string | string[];
+  blockCookieBanners?: boolean | string;
+  block?: string | string[];
+  blockTrackers?: boolean | string;
+  failOnHttpError?: boolean | string;
+  cookies?: CookieInput[];
+  headers?: Record<string, string>;
+  authorization?: string;
+  basicAuth?: { username: string; password?: string };
+  localStorage?: Record<string, string>;
+  actions?: PageAction[] | string;
+  resize?: string | SizeInput;
+  sizes?: string | (string | SizeInput)[];
+  thumbnail?: boolean | string | number;
+  fit?: string;
+  lossless?: boolean | string;
+  palette?: boolean | string;
+  compressionLevel?: string | number;
+  progressive?: boolean | string;
+  mozjpeg?: boolean | string;
+  effort?: string | number;
+}
+
+interface RenderRequestBody extends Omit<ScreenshotRequestBody, "url"> {
+  html?: string;
+  template?: string;
+  variables?: TemplateVariables;
+  allowNetwork?: boolean | string;
+}
+
+interface EncodeOptions {
+  lossless?: boolean;
+  palette?: boolean;
+  compressionLevel?: number;
+  progressive?: boolean;
+  mozjpeg?: boolean;
+  effort?: number;
+}
+
+interface SizeInput {
+  width?: number | string;
+  height?: number | string;
+  fit?: string;
+}
+
+interface ResizeOptions {
+  width?: number;
+  height?: number;
+  fit: string;
+}
+
+interface RenditionOptions extends ResizeOptions {
+  name?: string;
+}
+
+interface RenditionPayload {
+  name: string | null;
+  width: number;
+  height: number;
+  fit: string;
+  filename: string | null;
+  localPath: string | null;
+  size: number;
+  cached: boolean;
+  data?: string;
+}
+
+interface CookieInput {
+  name: string;
+  value: string;
+  domain?: string;
+  path?: string;
+  secure?: boolean;
+  httpOnly?: boolean;
+  sameSite?: "Strict" | "Lax" | "None";
+  expires?: number;
+}
+
+interface CaptureCredentials {
+  cookies: CookieInput[];
+  headers: Record<string, string>;
+  basicAuth?: { username: string; password: string };
+  localStorage: Record<string, string>;
+}
+
+interface PdfMargin {
+  top?: string;
+  right?: string;
+  bottom?: string;
+  left?: string;
+}
+
+interface PdfOptions {
+  paperSize: string;
+  landscape: boolean;
+  printBackground: boolean;
+  margin: PdfMargin;
+  headerTemplate?: string;
+  footerTemplate?: string;
+}
+
+interface JobRequestBody extends ScreenshotRequestBody {
+  callbackUrl?: string;
+}
+
+interface CaptureOptions {
+  url: string;
+  width: number;
+  height: number;
+  dark: boolean;
+  fullPage: boolean;
+  delay: number;
+  waitFor?: string;
+  userAgent?: string;
+  pdf?: PdfOptions;
+  selector?: string;
+  padding?: number;
+  device?: string;
+  deviceScaleFactor?: number;
+  isMobile?: boolean;
+  hasTouch?: boolean;
+  css?: string;
+  js?: string;
+  hideSelectors?: string[];
+  removeSelectors?: string[];
+  blockCookieBanners?: boolean;
+  block?: string[];
+  blockTrackers?: boolean;
+  // Fail with 502 instead of capturing a 4xx/5xx response
+  failOnHttpError?: boolean;
+  // Stop after extracting metadata, without taking a screenshot
+  metadataOnly?: boolean;
+  // Rendered with setContent instead of navigating to url
+  html?: string;
+  // Lets rendered HTML load http(s) resources, which it cannot by default
+  allowNetwork?: boolean;
+  credentials?: CaptureCredentials;
+  actions?: PageAction[];
+}
+
+interface BlockedRequests {
+  total: number;
+  resourceTypes: Record<string, number>;
+  domains: number;
+  unsafe: number;
+  network: number;
+}
+
+interface CaptureResult {
+  buffer: Buffer;
+  metadata: PageMetadata;
+  blockedRequests: BlockedRequests;
+  actions: ActionResult[] | null;
+}
+
+interface RenderedCapture extends CaptureResult {
+  // The capture before crop, resize and encoding; renditions are made
+  // from it so they are not compressed twice
+  raw: Buffer;
+}
+
+interface ScreenshotOptions extends CaptureOptions {
+  quality: number;
+  format: string;
+  outputFormat: string;
+  cacheControl: string;
+  // Seconds until the stored capture expires
+  ttl?: number;
+  // Oldest cached capture, in seconds, this request accepts
+  maxAge?: number;
+  uploadToCloud: boolean;
+  extractMeta: boolean;
+  crop?: { x: number; y: number; width: number; height: number };
+  resize?: ResizeOptions;
+  renditions: RenditionOptions[];
+  encoding: EncodeOptions;
+}
+
+interface ScreenshotPayload {
+  success: true;
+  url: string;
+  filename: string | null;
+  localPath: string | null;
+  s3Url?: string;
+  data?: string;
+  width: number;
+  height: number;
+  format: string;
+  fullPage: boolean;
+  dark: boolean;
+  device: string | null;
+  deviceScaleFactor: number;
+  quality: number;
+  size: number;
+  sizeKB: string;
+  cached: boolean;
+  responseTime: number;
+  // The target's HTTP status, null for rendered HTML and old cache entries
+  status: number | null;
+  errorCode: string | null;
+  metadata: PageMetadata | null;
+  blockedRequests: BlockedRequests | null;
+  actions: ActionResult[] | null;
+  renditions: RenditionPayload[] | null;
+}
+
+interface SignRequestBody {
+  expiresIn?: number;
+  [param: string]: unknown;
 }
 
 interface BatchRequestBody {
+  // Items are URLs or full screenshot requests; `urls` is the older form
+  items?: (string | ScreenshotRequestBody)[];
   urls?: string[];
+  defaults?: ScreenshotRequestBody;
+  concurrency?: number;
+  stream?: string;
+  output?: string;
+}
+
+type BatchResult =
+  | ({ index: number } & ScreenshotPayload)
+  | { index: number; success: false; url: string; error: string; code: string };
+
+interface BatchCapture {
+  result: BatchResult;
+  buffer: Buffer | null;
+  options: ScreenshotOptions | null;
+}
+
+interface DiffTarget {
+  url?: string;
+  filename?: string;
+}
+
+interface DiffRequestBody extends Omit<ScreenshotRequestBody, "url"> {
+  baseline?: DiffTarget;
+  current?: DiffTarget;
+  threshold?: number;
+  tolerance?: number;
+}
+
+interface DiffSide {
+  url: string | null;
+  filename: string | null;
+  cached: boolean;
+  buffer: Buffer;
+  private: boolean;
 }
 
-async function extractMetadata(page: Page): Promise<PageMetadata> {
-  return await page.evaluate(() => {
-    const getMetaContent = (name: string) => {
-      const meta = document.querySelector(
-        `meta[name="${name}"], meta[property="${name}"]`,
+const cookieBannerSelectors = loadCookieBannerSelectors(
+  CONFIG.COOKIE_BANNER_SELECTORS_FILE,
+);
+
+async function applyPageInjections(
+  page: Page,
+  options: CaptureOptions,
+): Promise<void> {
+  const hideSelectors = [...(options.hideSelectors || [])];
+  const removeSelectors = [...(options.removeSelectors || [])];
+  let css = options.css || "";
+
+  if (options.blockCookieBanners) {
+    removeSelectors.push(...cookieBannerSelectors);
+    // Consent dialogs usually lock scrolling on the document
+    css += "\nhtml, body { overflow: auto !important; }";
+  }
+
+  // One rule per selector so a single invalid selector cannot void the rest
+  for (const selector of hideSelectors) {
+    css += `\n${selector} { visibility: hidden !important; }`;
+  }
+
+  if (css) {
+    await page.addStyleTag({ content: css });
+  }
+
+  if (removeSelectors.length > 0) {
+    await page.evaluate((selectors) => {
+      for (const selector of selectors) {
+        try {
+          document.querySelectorAll(selector).forEach((el) => el.remove());
+        } catch {
+          // Invalid selector
+        }
+      }
+    }, removeSelectors);
+  }
+
+  if (options.js) {
+    try {
+      await page.evaluate(`(async () => {\n${options.js}\n})()`);
+    } catch (error) {
+      throw new HttpError(
+        422,
+        "Script failed",
+        error instanceof Error ? error.message : "Injected script threw",
+        "SCRIPT_FAILED",
       );
-      return meta?.getAttribute("content") || null;
-    };
+    }
+  }
+}
 
-    return {
-      title: document.title,
-      description:
-        getMetaContent("description") || getMetaContent("og:description"),
-      ogImage: getMetaContent("og:image"),
-      favicon:
-        document.querySelector('link[rel="icon"]')?.getAttribute("href") ||
-        null,
-      url: window.location.href,
-    };
+async function applyCredentials(
+  page: Page,
+  url: string,
+  credentials: CaptureCredentials,
+): Promise<void> {
+  const { hostname, origin } = new URL(url);
+
+  if (credentials.cookies.length > 0) {
+    await page.browserContext().setCookie(
+      ...credentials.cookies.map((cookie) => ({
+        name: cookie.name,
+        value: cookie.value,
+        domain: cookie.domain || hostname,
+        path: cookie.path || "/",
+        secure: cookie.secure,
+        httpOnly: cookie.httpOnly,
+        sameSite: cookie.sameSite,
+        expires: cookie.expires,
+      })),
+    );
+  }
+
+  const storageEntries = Object.entries(credentials.localStorage);
+  if (storageEntries.length > 0) {
+    await page.evaluateOnNewDocument(
+      (targetOrigin, entries) => {
+        if (window.location.origin !== targetOrigin) return;
+        for (const [key, value] of entries) {
+          window.localStorage.setItem(key, value);
+        }
+      },
+      origin,
+      storageEntries,
+    );
+  }
+}
+
+async function getElementClip(
+  page: Page,
+  selector: string,
+  padding: number,
+): Promise<{ x: number; y: number; width: number; height: number }> {
+  let element: ElementHandle<Element> | null;
+  try {
+    element = await page.$(selector);
+  } catch {
+    throw new HttpError(
+      400,
+      "Invalid selector",
+      `'${selector}' is not a valid CSS selector`,
+    );
+  }
+
+  if (!element) {
+    throw new HttpError(
+      422,
+      "Element not found",
+      `No element matches selector '${selector}'`,
+      "ELEMENT_NOT_FOUND",
+    );
+  }
+
+  try {
+    await element.scrollIntoView();
+    const clip = await element.evaluate((el, pad) => {
+      const rect = el.getBoundingClientRect();
+      const left = Math.max(rect.left + window.scrollX - pad, 0);
+      const top = Math.max(rect.top + window.scrollY - pad, 0);
+      return {
+        x: left,
+        y: top,
+        width: rect.right + window.scrollX + pad - left,
+        height: rect.bottom + window.scrollY + pad - top,
+      };
+    }, padding);
+
+    if (clip.width - padding * 2 <= 0 || clip.height - padding * 2 <= 0) {
+      throw new HttpError(
+        422,
+        "Element not visible",
+        `Element matching '${selector}' has no visible size`,
+        "ELEMENT_NOT_VISIBLE",
+      );
+    }
+
+    return clip;
+  } finally {
+    await element.dispose();
+  }
+}
+
+// Error pages are captured like any other, with the code reported next to
+// the target's status
+function getTargetErrorCode(status: number | null): string | null {
+  if (!status || status < 400) return null;
+  return status >= 500 ? "TARGET_HTTP_5XX" : "TARGET_HTTP_4XX";
+}
+
+const DEFAULT_BLOCKED_TYPES = ["media"];
+const WEBSOCKET_PATTERNS = ["ws://*", "wss://*"];
+// Metadata lives in the HTML, so /api/meta skips heavy resources by default
+const META_BLOCKED_TYPES = ["image", "media", "font", "stylesheet"];
+
+function logBlockedUrl(
+  url: string,
+  reason: string | undefined,
+  source: string,
+): void {
+  blockedUrls.inc({ source });
+  // Only the host is logged, since query strings can carry tokens
+  let target: string | undefined;
+  try {
+    const parsed = new URL(url);
+    target = parsed.hostname || parsed.protocol;
+  } catch {
+    // Malformed URLs are logged without a target
+  }
+  logger.warn("blocked_url", {
+    target,
+    source,
+    reason: reason || "URL is not allowed",
   });
 }
 
+const blockedDomains = loadBlocklist(CONFIG.BLOCKLIST_FILE);
+
 async function captureScreenshot(
-  url: string,
-  width: number,
-  height: number,
-  dark: boolean,
-  fullPage: boolean,
-  delay: number,
-  waitFor?: string,
-  userAgent?: string,
-): Promise<{ buffer: Buffer; metadata: PageMetadata }> {
-  const browser = await getBrowser();
-  const page = await browser.newPage();
+  options: CaptureOptions,
+): Promise<CaptureResult> {
+  const { url, width, height, dark, fullPage, delay, waitFor, userAgent, pdf } =
+    options;
+  const { credentials } = options;
+  const page = await pagePool.acquire({ isolated: !!credentials });
+  const endCapture = captureDuration.startTimer();
 
   try {
-    await page.setViewport({ width, height });
+    await page.setViewport({
+      width,
+      height,
+      deviceScaleFactor: options.deviceScaleFactor || 1,
+      isMobile: options.isMobile || false,
+      hasTouch: options.hasTouch || false,
+    });
 
     if (userAgent) {
       await page.setUserAgent(userAgent);
@@ -194,28 +932,191 @@ async function captureScreenshot(
       "Accept-Language": "en-US,en;q=0.9",
     });
 
-    await page.setRequestInterception(true);
-    page.on("request", (request) => {
-      const requestUrl = request.url();
-      const resourceType = request.resourceType();
-
-      if (resourceType === "font" || resourceType === "media") {
-        request.abort();
-      } else if (
-        requestUrl.includes("ads") ||
-        requestUrl.includes("analytics")
-      ) {
-        request.abort();
-      } else {
-        request.continue();
+    // Injected styles and scripts would otherwise be refused by pages that
+    // send a Content-Security-Policy; must be set before navigation
+    if (
+      options.css ||
+      options.js ||
+      options.hideSelectors?.length ||
+      options.removeSelectors?.length ||
+      options.blockCookieBanners
+    ) {
+      await page.setBypassCSP(true);
+    }
+
+    if (credentials) {
+      await applyCredentials(page, url, credentials);
+    }
+    const targetHostname = new URL(url).hostname;
+    // Basic credentials are sent up front instead of through page.authenticate,
+    // which would answer 401 challenges from any origin the page loads
+    const targetHeaders: Record<string, string> = {};
+    if (credentials?.basicAuth) {
+      const { username, password } = credentials.basicAuth;
+      targetHeaders["Authorization"] =
+        `Basic ${Buffer.from(`${username}:${password}`).toString("base64")}`;
+    }
+    Object.assign(targetHeaders, credentials?.headers);
+
+    const blockedTypes = options.block ?? DEFAULT_BLOCKED_TYPES;
+    const blockTrackers = options.blockTrackers !== false;
+    const blockedRequests: BlockedRequests = {
+      total: 0,
+      resourceTypes: {},
+      domains: 0,
+      unsafe: 0,
+      network: 0,
+    };
+    const isRender = options.html !== undefined;
+    let navigationBlocked: string | null = null;
+    let privateResponse: string | null = null;
+
+    // Request interception never sees WebSocket connections, so they are
+    // blocked in the network stack and hidden from page scripts
+    const client = await page.createCDPSession();
+    await client.send("Network.enable");
+    await client.send("Network.setBlockedURLs", { urls: WEBSOCKET_PATTERNS });
+    await page.evaluateOnNewDocument(() => {
+      for (const name of ["WebSocket", "WebTransport"]) {
+        Object.defineProperty(window, name, { value: undefined });
+      }
+    });
+
+    // Hosts are checked with a separate DNS lookup, so a host that rebinds
+    // to a private address afterwards is caught by the address Chromium
+    // actually connected to, and the capture is discarded
+    page.on("response", (response) => {
+      const address = response.remoteAddress().ip?.replace(/^\[|\]$/g, "");
+      if (address && isPrivateAddress(address) && !privateResponse) {
+        privateResponse = `${new URL(response.url()).hostname} connected to a private or reserved address (${address})`;
+        logBlockedUrl(response.url(), privateResponse, "rebinding");
       }
     });
 
-    await page.goto(url, {
-      waitUntil: "networkidle2",
-      timeout: CONFIG.SCREENSHOT_TIMEOUT,
+    await page.setRequestInterception(true);
+    page.on("request", async (request) => {
+      try {
+        const resourceType = request.resourceType();
+
+        if (blockedTypes.includes(resourceType)) {
+          blockedResources.inc({ reason: "resource_type" });
+          blockedRequests.total++;
+          blockedRequests.resourceTypes[resourceType] =
+            (blockedRequests.resourceTypes[resourceType] || 0) + 1;
+          await request.abort();
+          return;
+        }
+
+        // Every navigation, redirect hop and subresource is checked, since
+        // the page can reach internal hosts that the target URL does not
+        const requestUrl = request.url();
+        const protocol = requestUrl.slice(0, requestUrl.indexOf(":") + 1);
+        const isHttp = protocol === "http:" || protocol === "https:";
+        const hostname = isHttp ? new URL(requestUrl).hostname : "";
+        if (isRender && isHttp && !options.allowNetwork) {
+          blockedRequests.total++;
+          blockedRequests.network++;
+          await request.abort("blockedbyclient");
+          return;
+        }
+
+        let unsafeReason: string | undefined;
+        if (isHttp) {
+          const hostCheck = await isHostSafe(hostname);
+          if (!hostCheck.safe) unsafeReason = hostCheck.reason;
+        } else if (protocol !== "data:" && protocol !== "blob:") {
+          unsafeReason = `Protocol ${protocol} is not allowed`;
+        }
+
+        if (unsafeReason) {
+          blockedRequests.total++;
+          blockedRequests.unsafe++;
+          logBlockedUrl(requestUrl, unsafeReason, resourceType);
+          if (
+            request.isNavigationRequest() &&
+            request.frame() === page.mainFrame()
+          ) {
+            navigationBlocked = unsafeReason;
+          }
+          await request.abort("blockedbyclient");
+          return;
+        }
+
+        if (blockTrackers && !request.isNavigationRequest()) {
+          if (hostname && isBlockedHost(hostname, blockedDomains)) {
+            blockedResources.inc({ reason: "tracker" });
+            blockedRequests.total++;
+            blockedRequests.domains++;
+            await request.abort();
+            return;
+          }
+        }
+
+        // Custom headers and basic credentials go to the target host only,
+        // so they are never sent to third-party scripts, fonts or trackers
+        if (
+          hostname === targetHostname &&
+          Object.keys(targetHeaders).length > 0
+        ) {
+          await request.continue({
+            headers: { ...request.headers(), ...targetHeaders },
+          });
+          return;
+        }
+
+        await request.continue();
+      } catch {
+        // Page closed while the request was pending
+      }
     });
 
+    const endNavigation = navigationDuration.startTimer();
+    let targetStatus = 0;
+    try {
+      if (isRender) {
+        await page.setContent(options.html!, {
+          waitUntil: "networkidle2",
+          timeout: CONFIG.SCREENSHOT_TIMEOUT,
+        });
+      } else {
+        const response = await page.goto(url, {
+          waitUntil: "networkidle2",
+          timeout: CONFIG.SCREENSHOT_TIMEOUT,
+        });
+        targetStatus = response?.status() ?? 0;
+      }
+    } catch (error) {
+      if (navigationBlocked) {
+        throw new HttpError(
+          403,
+          "Blocked URL",
+          navigationBlocked,
+          "BLOCKED_URL",
+        );
+      }
+      if (error instanceof TimeoutError) {
+        throw new HttpError(
+          504,
+          "Navigation timeout",
+          `${isRender ? "Rendered HTML" : url} did not finish loading within ${CONFIG.SCREENSHOT_TIMEOUT}ms`,
+          "NAVIGATION_TIMEOUT",
+        );
+      }
+      throw error;
+    } finally {
+      recordTiming("navigation", endNavigation());
+    }
+
+    const targetError = getTargetErrorCode(targetStatus);
+    if (targetError && options.failOnHttpError) {
+      throw new HttpError(
+        502,
+        "Target returned an error",
+        `${url} responded with HTTP ${targetStatus}`,
+        targetError,
+      );
+    }
+
     if (waitFor) {
       try {
         await page.waitForSelector(waitFor, { timeout: 10000 });
@@ -224,30 +1125,108 @@ async function captureScreenshot(
       }
     }
 
+    await applyPageInjections(page, options);
+
+    let actions: ActionResult[] | null = null;
+    if (options.actions?.length) {
+      try {
+        actions = await runActions(page, options.actions);
+      } catch (error) {
+        if (error instanceof ActionError) {
+          throw new HttpError(
+            422,
+            "Action failed",
+            error.message,
+            "ACTION_FAILED",
+          );
+        }
+        throw error;
+      }
+    }
+
     if (delay > 0) {
       await new Promise((resolve) => setTimeout(resolve, delay));
     }
 
-    const metadata = await extractMetadata(page);
+    if (privateResponse) {
+      throw new HttpError(403, "Blocked URL", privateResponse, "BLOCKED_URL");
+    }
+
+    const metadata = await extractMetadata(page, targetStatus || null);
+
+    if (options.metadataOnly) {
+      return { buffer: Buffer.alloc(0), metadata, blockedRequests, actions };
+    }
+
+    if (pdf) {
+      const pdfBuffer = await page.pdf({
+        format: pdf.paperSize as PaperFormat,
+        landscape: pdf.landscape,
+        printBackground: pdf.printBackground,
+        margin: pdf.margin,
+        displayHeaderFooter: !!(pdf.headerTemplate || pdf.footerTemplate),
+        headerTemplate: pdf.headerTemplate || "<span></span>",
+        footerTemplate: pdf.footerTemplate || "<span></span>",
+        timeout: CONFIG.SCREENSHOT_TIMEOUT,
+      });
+      return {
+        buffer: Buffer.from(pdfBuffer),
+        metadata,
+        blockedRequests,
+        actions,
+      };
+    }
+
+    if (options.selector) {
+      const clip = await getElementClip(
+        page,
+        options.selector,
+        options.padding || 0,
+      );
+      const screenshot = await page.screenshot({
+        type: "png",
+        clip,
+        captureBeyondViewport: true,
+      });
+      return {
+        buffer: Buffer.from(screenshot),
+        metadata,
+        blockedRequests,
+        actions,
+      };
+    }
 
     const screenshot = await page.screenshot({
       type: "png",
       fullPage: fullPage,
     });
 
-    return { buffer: screenshot as Buffer, metadata };
+    return {
+      buffer: screenshot as Buffer,
+      metadata,
+      blockedRequests,
+      actions,
+    };
   } finally {
-    await page.close();
+    recordTiming("capture", endCapture());
+    await pagePool.release(page);
   }
 }
 
 async function processImage(
   buffer: Buffer,
-  format: string,
-  quality: number,
-  crop?: { x: number; y: number; width: number; height: number },
-): Promise<{ buffer: Buffer; size: number }> {
+  options: {
+    format: string;
+    quality: number;
+    encoding: EncodeOptions;
+    crop?: { x: number; y: number; width: number; height: number };
+    resize?: ResizeOptions;
+  },
+): Promise<{ buffer: Buffer; size: number; width: number; height: number }> {
+  const { format, quality, encoding, crop, resize } = options;
+  const endEncode = encodeDuration.startTimer({ format });
   let processor = sharp(buffer);
+  const isJpeg = format === "jpeg" || format === "jpg";
 
   if (crop) {
     processor = processor.extract({
@@ -258,16 +1237,72 @@ async function processImage(
     });
   }
 
-  let processed: Buffer;
+  if (resize) {
+    processor = processor.resize({
+      width: resize.width,
+      height: resize.height,
+      fit: resize.fit as keyof sharp.FitEnum,
+      withoutEnlargement: resize.fit === "inside",
+      // Letterboxing for "contain"; JPEG has no alpha channel
+      background: isJpeg
+        ? { r: 255, g: 255, b: 255, alpha: 1 }
+        : { r: 0, g: 0, b: 0, alpha: 0 },
+    });
+  }
+
   if (format === "webp") {
-    processed = await processor.webp({ quality, effort: 6 }).toBuffer();
-  } else if (format === "jpeg" || format === "jpg") {
-    processed = await processor.jpeg({ quality }).toBuffer();
+    processor = processor.webp({
+      quality,
+      lossless: encoding.lossless,
+      effort: encoding.effort ?? 6,
+    });
+  } else if (format === "avif") {
+    processor = processor.avif({
+      quality,
+      lossless: encoding.lossless,
+      effort: encoding.effort ?? 4,
+    });
+  } else if (isJpeg) {
+    processor = processor.jpeg({
+      quality,
+      progressive: encoding.progressive,
+      mozjpeg: encoding.mozjpeg,
+    });
+  } else if (encoding.palette) {
+    // quality and effort only apply to palette-based PNG
+    processor = processor.png({
+      palette: true,
+      quality,
+      effort: encoding.effort,
+      compressionLevel: encoding.compressionLevel,
+    });
   } else {
-    processed = await processor.png({ quality }).toBuffer();
+    processor = processor.png({
+      palette: false,
+      compressionLevel: encoding.compressionLevel,
+    });
   }
 
-  return { buffer: processed, size: processed.length };
+  let encoded: { data: Buffer; info: sharp.OutputInfo };
+  try {
+    encoded = await processor.toBuffer({ resolveWithObject: true });
+  } catch (error) {
+    throw new HttpError(
+      500,
+      "Encode failed",
+      error instanceof Error ? error.message : "Image could not be encoded",
+      "ENCODE_FAILED",
+    );
+  }
+  const { data, info } = encoded;
+  recordTiming("encode", endEncode());
+  outputBytes.observe({ format }, data.length);
+  return {
+    buffer: data,
+    size: data.length,
+    width: info.width,
+    height: info.height,
+  };
 }
 
 async function uploadToS3(
@@ -275,48 +1310,60 @@ async function uploadToS3(
   filename: string,
   contentType: string,
 ): Promise<string> {
-  if (!s3Client || !CONFIG.S3_ENABLED) {
+  if (!s3Storage || !CONFIG.S3_ENABLED) {
     throw new Error("S3 not configured");
   }
 
-  await s3Client.send(
-    new PutObjectCommand({
-      Bucket: CONFIG.S3_BUCKET,
-      Key: filename,
-      Body: new Uint8Array(buffer),
-      ContentType: contentType,
-    }),
-  );
+  // With the S3 backend the object was already written by the cache
+  if (storage !== s3Storage) {
+    const endUpload = uploadDuration.startTimer();
+    await s3Storage.put(filename, buffer, contentType);
+    recordTiming("upload", endUpload());
+  }
 
-  stats.uploadedToS3++;
+  s3Uploads.inc();
 
   return CONFIG.S3_PUBLIC_URL
     ? `${CONFIG.S3_PUBLIC_URL}/${filename}`
     : filename;
 }
 
-function getImageCount(): number {
+interface StorageStats {
+  count: number;
+  size: number;
+  // When the backend was last listed, null until the first listing finishes
+  countedAt: number | null;
+}
+
+const STORAGE_STATS_TTL = 5 * 60 * 1000;
+let storageStats: StorageStats = { count: 0, size: 0, countedAt: null };
+let storageStatsRefresh: Promise<void> | null = null;
+
+async function countStorage(): Promise<void> {
   try {
-    return readdirSync(CONFIG.IMAGES_DIR).filter((f) =>
-      f.match(/\.(webp|png|jpe?g)$/),
-    ).length;
+    const objects = (await storage.list()).filter((object) =>
+      object.key.match(/\.(webp|avif|png|jpe?g|pdf)$/),
+    );
+    storageStats = {
+      count: objects.length,
+      size: objects.reduce((sum, object) => sum + object.size, 0),
+      countedAt: Date.now(),
+    };
   } catch {
-    return 0;
+    // Keep the last counts
   }
 }
 
-function getStorageSize(): number {
-  try {
-    let total = 0;
-    const files = readdirSync(CONFIG.IMAGES_DIR);
-    for (const file of files) {
-      const stat = statSync(join(CONFIG.IMAGES_DIR, file));
-      total += stat.size;
-    }
-    return total;
-  } catch {
-    return 0;
+// Listing a bucket pages through every object, which is slow and billed,
+// so callers get the last counts while a refresh runs in the background
+function getStorageStats(): StorageStats {
+  const age = Date.now() - (storageStats.countedAt ?? 0);
+  if (!storageStatsRefresh && age > STORAGE_STATS_TTL) {
+    storageStatsRefresh = countStorage().finally(() => {
+      storageStatsRefresh = null;
+    });
   }
+  return storageStats;
 }
 
 async function cleanupOldFiles(): Promise<{
@@ -324,372 +1371,2356 @@ async function cleanupOldFiles(): Promise<{
   freedMB: number;
 }> {
   try {
-    const files = readdirSync(CONFIG.IMAGES_DIR)
-      .map((f) => {
-        const path = join(CONFIG.IMAGES_DIR, f);
-        const stat = statSync(path);
-        return { path, mtime: stat.mtime.getTime(), size: stat.size };
-      })
-      .sort((a, b) => a.mtime - b.mtime);
+    // Monitor history has its own retention, applied below, and capture
+    // records are deleted along with their capture
+    const objects = await storage.list();
+    const files = objects
+      .filter(
+        (file) =>
+          !file.key.startsWith(MONITOR_FILE_PREFIX) &&
+          !isCaptureRecord(file.key),
+      )
+      .sort((a, b) => a.lastModified - b.lastModified);
 
     const now = Date.now();
     const maxAge = CONFIG.MAX_FILE_AGE_DAYS * 24 * 60 * 60 * 1000;
     const maxSize = CONFIG.MAX_STORAGE_GB * 1024 * 1024 * 1024;
 
-    let currentSize = files.reduce((sum, f) => sum + f.size, 0);
-    let deleted = 0;
-    let freed = 0;
+    let currentSize = files.reduce((sum, f) => sum + f.size, 0);
+    let deleted = 0;
+    let freed = 0;
+
+    for (const file of files) {
+      const age = now - file.lastModified;
+      const shouldDelete =
+        age > maxAge ||
+        currentSize > maxSize ||
+        !(await captureIndex.isFresh(file.key, undefined, now));
+
+      if (shouldDelete) {
+        await storage.delete(file.key);
+        await captureIndex.remove(file.key);
+        deleted++;
+        freed += file.size;
+        currentSize -= file.size;
+      }
+    }
+
+    // Records whose capture was stored elsewhere or failed to store
+    const stored = new Set(files.map((file) => file.key));
+    for (const object of objects) {
+      const filename = object.key.slice(0, -CAPTURE_RECORD_SUFFIX.length);
+      if (isCaptureRecord(object.key) && !stored.has(filename)) {
+        await captureIndex.remove(filename);
+      }
+    }
+
+    const pruned = await monitorStore.prune(
+      CONFIG.MONITOR_RETENTION_DAYS * 24 * 60 * 60 * 1000,
+    );
+    deleted += pruned.deleted;
+    freed += pruned.freed;
+
+    return { deleted, freedMB: freed / (1024 * 1024) };
+  } catch {
+    return { deleted: 0, freedMB: 0 };
+  }
+}
+
+setInterval(async () => {
+  if (CONFIG.AUTO_CLEANUP_ENABLED) {
+    await cleanupOldFiles();
+  }
+}, 3600000);
+
+// Default error codes by status; specific failures pass their own
+const ERROR_CODES: Record<number, string> = {
+  400: "INVALID_REQUEST",
+  401: "UNAUTHORIZED",
+  403: "FORBIDDEN",
+  404: "NOT_FOUND",
+  405: "METHOD_NOT_ALLOWED",
+  409: "CONFLICT",
+  413: "TOO_LARGE",
+  422: "UNPROCESSABLE",
+  429: "RATE_LIMITED",
+  501: "NOT_IMPLEMENTED",
+  502: "BAD_GATEWAY",
+  503: "UNAVAILABLE",
+  504: "TIMEOUT",
+};
+
+class HttpError extends Error {
+  constructor(
+    public status: number,
+    public error: string,
+    message: string,
+    public code = ERROR_CODES[status] || "INTERNAL_ERROR",
+  ) {
+    super(message);
+  }
+}
+
+class RateLimitError extends HttpError {
+  constructor(
+    public limit: RateLimitResult,
+    message: string,
+  ) {
+    super(429, "Rate limit exceeded", message);
+  }
+}
+
+// Chrome network error codes, as they appear in navigation failures
+const NETWORK_ERRORS: [RegExp, number, string, string][] = [
+  [
+    /net::ERR_NAME_(NOT_RESOLVED|RESOLUTION_FAILED)/,
+    502,
+    "DNS lookup failed",
+    "DNS_FAILURE",
+  ],
+  [/net::ERR_(CERT_\w+|SSL_\w+)/, 502, "TLS error", "TLS_ERROR"],
+  [/net::ERR_TIMED_OUT/, 504, "Connection timed out", "CONNECTION_TIMEOUT"],
+  [
+    /net::ERR_(CONNECTION_\w+|ADDRESS_UNREACHABLE|EMPTY_RESPONSE)/,
+    502,
+    "Connection failed",
+    "CONNECTION_FAILED",
+  ],
+];
+
+// Maps anything thrown during a request to an HttpError with a stable code,
+// so target problems (502, 504) are told apart from server faults (500, 503)
+function classifyError(error: unknown, fallback = "Internal error"): HttpError {
+  if (error instanceof HttpError) return error;
+
+  const message = error instanceof Error ? error.message : "Unknown error";
+  // Thrown by req.json() on malformed bodies
+  if (error instanceof SyntaxError) {
+    return new HttpError(400, "Invalid JSON", message, "INVALID_JSON");
+  }
+  if (error instanceof PoolTimeoutError) {
+    return new HttpError(503, "Server busy", message, "POOL_TIMEOUT");
+  }
+  if (error instanceof QueueFullError) {
+    return new HttpError(503, "Job queue full", message, "QUEUE_FULL");
+  }
+  if (error instanceof TimeoutError) {
+    return new HttpError(504, "Capture timed out", message, "CAPTURE_TIMEOUT");
+  }
+  for (const [pattern, status, title, code] of NETWORK_ERRORS) {
+    if (pattern.test(message))
+      return new HttpError(status, title, message, code);
+  }
+  return new HttpError(500, fallback, message, "INTERNAL_ERROR");
+}
+
+// 502 and 504 mean the target site failed, not this server
+function isServerFault(error: HttpError): boolean {
+  return error.status === 500 || error.status === 503;
+}
+
+function errorResponse(error: unknown, fallback: string): Response {
+  if (error instanceof RateLimitError) {
+    return rateLimitResponse(error);
+  }
+
+  const classified = classifyError(error, fallback);
+  annotateRequest({
+    error: { code: classified.code, message: classified.message },
+  });
+  if (isServerFault(classified)) unexpectedErrors.inc();
+
+  return Response.json(
+    {
+      error: classified.error,
+      code: classified.code,
+      message: classified.message,
+      requestId: requestContext.getStore()?.requestId,
+    },
+    {
+      status: classified.status,
+      headers:
+        classified.status === 503
+          ? { "Retry-After": "5", ...CORS_HEADERS }
+          : CORS_HEADERS,
+    },
+  );
+}
+
+function rateLimitResponse(error: RateLimitError): Response {
+  const { limit } = error;
+  const retryAfter = Math.max(
+    Math.ceil((limit.resetAt - Date.now()) / 1000),
+    0,
+  );
+  annotateRequest({ error: { code: error.code, message: error.message } });
+  return Response.json(
+    {
+      error: error.error,
+      code: error.code,
+      message: error.message,
+      requestId: requestContext.getStore()?.requestId,
+    },
+    {
+      status: 429,
+      headers: {
+        "X-RateLimit-Limit": String(limit.limit),
+        "X-RateLimit-Remaining": String(limit.remaining),
+        "X-RateLimit-Reset": String(Math.ceil(limit.resetAt / 1000)),
+        "Retry-After": String(retryAfter),
+        ...CORS_HEADERS,
+      },
+    },
+  );
+}
+
+function checkSignature(req: Request, url: URL): boolean {
+  if (req.method !== "GET" || !CONFIG.URL_SIGNING_SECRET) return false;
+  if (!CONFIG.REQUIRE_SIGNED_URLS && !url.searchParams.has("token")) {
+    return false;
+  }
+
+  const signature = verifySignedParams(
+    url.searchParams,
+    CONFIG.URL_SIGNING_SECRET,
+  );
+  if (!signature.valid) {
+    throw new HttpError(
+      403,
+      "Invalid signature",
+      signature.reason || "Signature check failed",
+    );
+  }
+  return true;
+}
+
+// Checks the API key without charging quota, for lookups like job polling
+function identifyRequest(
+  req: Request,
+  url: URL,
+  signed = false,
+): ApiKey | null {
+  const key = getRequestApiKey(req, url);
+
+  if (!key) {
+    if (CONFIG.REQUIRE_API_KEY && !signed) {
+      throw new HttpError(401, "Unauthorized", "An API key is required");
+    }
+    return null;
+  }
+
+  const apiKey = keyStore.find(key);
+  if (apiKey) annotateRequest({ apiKey: apiKey.name });
+  if (!apiKey) {
+    throw new HttpError(401, "Unauthorized", "Invalid API key");
+  }
+
+  if (!apiKey.enabled) {
+    throw new HttpError(403, "Forbidden", "API key is disabled");
+  }
+
+  if (!isOriginAllowed(getRequestOrigin(req), apiKey.allowedOrigins)) {
+    throw new HttpError(
+      403,
+      "Forbidden",
+      "Origin is not allowed for this API key",
+    );
+  }
+  return apiKey;
+}
+
+// Requests that capture several pages say how much they needed, since the
+// quota may not be used up yet
+function getQuotaMessage(
+  message: string,
+  limit: RateLimitResult,
+  cost: number,
+): string {
+  if (cost <= 1) return message;
+  return `${message}: this request needs ${cost} and ${limit.remaining} remain`;
+}
+
+// Charges the API key, or the IP without one, one unit per capture
+function chargeRequest(apiKey: ApiKey | null, ip: string, cost = 1): void {
+  if (!apiKey) {
+    const limit = checkRateLimit(ip, cost);
+    if (!limit.allowed) {
+      rateLimited.inc({ scope: "ip" });
+      throw new RateLimitError(
+        limit,
+        getQuotaMessage(
+          `Maximum ${CONFIG.MAX_REQUESTS_PER_IP} requests per hour`,
+          limit,
+          cost,
+        ),
+      );
+    }
+    return;
+  }
+
+  const limit = keyStore.consume(apiKey, cost);
+  if (!limit.allowed) {
+    rateLimited.inc({ scope: "api_key" });
+    throw new RateLimitError(
+      limit,
+      getQuotaMessage("API key quota exceeded", limit, cost),
+    );
+  }
+}
+
+function authorizeRequest(
+  req: Request,
+  url: URL,
+  ip: string,
+  signed = false,
+): ApiKey | null {
+  const apiKey = identifyRequest(req, url, signed);
+  chargeRequest(apiKey, ip);
+  return apiKey;
+}
+
+// Monitors outlive the request that made them, so they belong to an API
+// key. Admin keys (manageCache) see every monitor; owner is then undefined.
+function authorizeMonitorRequest(
+  req: Request,
+  url: URL,
+  ip: string,
+): { id: string; owner: string | undefined } {
+  if (!getRequestApiKey(req, url)) {
+    throw new HttpError(
+      401,
+      "Unauthorized",
+      "An API key is required to manage monitors",
+    );
+  }
+  const apiKey = authorizeRequest(req, url, ip)!;
+  const id = getKeyId(apiKey.key);
+  return { id, owner: apiKey.manageCache ? undefined : id };
+}
+
+function getContentType(format: string): string {
+  return format === "webp"
+    ? "image/webp"
+    : format === "avif"
+      ? "image/avif"
+      : format === "png"
+        ? "image/png"
+        : format === "pdf"
+          ? "application/pdf"
+          : "image/jpeg";
+}
+
+// Picks the best image format the client accepts, for format=auto.
+// Clients that send no Accept header or only wildcards get WebP.
+function negotiateFormat(accept: string): string {
+  const accepted = new Map<string, number>();
+  for (const part of accept.toLowerCase().split(",")) {
+    const [type, ...params] = part.trim().split(";");
+    const q = params.find((param) => param.trim().startsWith("q="));
+    accepted.set(type.trim(), q ? parseFloat(q.trim().slice(2)) : 1);
+  }
+
+  for (const format of ["avif", "webp", "jpeg", "png"]) {
+    const q = accepted.get(`image/${format}`);
+    if (q !== undefined && q > 0) return format;
+  }
+  return "webp";
+}
+
+function screenshotBodyFromQuery(
+  params: URLSearchParams,
+): ScreenshotRequestBody {
+  return {
+    url: params.get("url") || undefined,
+    width: params.get("width") || undefined,
+    height: params.get("height") || undefined,
+    dark: params.get("dark") || undefined,
+    quality: params.get("quality") || undefined,
+    format: params.get("format") || undefined,
+    outputFormat: params.get("output") || undefined,
+    fullPage: params.get("fullPage") || undefined,
+    delay: params.get("delay") || undefined,
+    waitFor: params.get("waitFor") || undefined,
+    userAgent: params.get("userAgent") || undefined,
+    cache: params.get("cache") || undefined,
+    ttl: params.get("ttl") || undefined,
+    maxAge: params.get("maxAge") || undefined,
+    uploadToS3: params.get("uploadToS3") === "true",
+    metadata: params.get("metadata") !== "false",
+    paperSize: params.get("paperSize") || undefined,
+    landscape: params.get("landscape") || undefined,
+    printBackground: params.get("printBackground") || undefined,
+    margin: params.get("margin") || undefined,
+    headerTemplate: params.get("headerTemplate") || undefined,
+    footerTemplate: params.get("footerTemplate") || undefined,
+    selector: params.get("selector") || undefined,
+    padding: params.get("padding") || undefined,
+    device: params.get("device") || undefined,
+    deviceScaleFactor: params.get("deviceScaleFactor") || undefined,
+    isMobile: params.get("isMobile") || undefined,
+    hasTouch: params.get("hasTouch") || undefined,
+    css: params.get("css") || undefined,
+    js: params.get("js") || undefined,
+    hideSelectors: params.getAll("hideSelectors"),
+    removeSelectors: params.getAll("removeSelectors"),
+    blockCookieBanners: params.get("blockCookieBanners") || undefined,
+    block: params.has("block") ? params.getAll("block") : undefined,
+    blockTrackers: params.get("blockTrackers") || undefined,
+    failOnHttpError: params.get("failOnHttpError") || undefined,
+    actions: params.get("actions") || undefined,
+    resize: params.get("resize") || undefined,
+    sizes: params.getAll("sizes").join(",") || undefined,
+    thumbnail: params.get("thumbnail") || undefined,
+    fit: params.get("fit") || undefined,
+    lossless: params.get("lossless") || undefined,
+    palette: params.get("palette") || undefined,
+    compressionLevel: params.get("compressionLevel") || undefined,
+    progressive: params.get("progressive") || undefined,
+    mozjpeg: params.get("mozjpeg") || undefined,
+    effort: params.get("effort") || undefined,
+  };
+}
+
+function toStringList(value?: string | string[]): string[] {
+  if (!value) return [];
+  return (Array.isArray(value) ? value : [value]).filter(
+    (item) => typeof item === "string" && item.trim(),
+  );
+}
+
+function parseCredentials(
+  body: ScreenshotRequestBody,
+): CaptureCredentials | undefined {
+  const headers: Record<string, string> =
+    body.headers && typeof body.headers === "object" ? { ...body.headers } : {};
+  if (body.authorization) {
+    headers["Authorization"] = body.authorization;
+  }
+
+  const cookies = Array.isArray(body.cookies) ? body.cookies : [];
+  const localStorage =
+    body.localStorage && typeof body.localStorage === "object"
+      ? { ...body.localStorage }
+      : {};
+  const basicAuth = body.basicAuth?.username
+    ? {
+        username: String(body.basicAuth.username),
+        password: String(body.basicAuth.password ?? ""),
+      }
+    : undefined;
+
+  if (
+    cookies.length === 0 &&
+    Object.keys(headers).length === 0 &&
+    Object.keys(localStorage).length === 0 &&
+    !basicAuth
+  ) {
+    return undefined;
+  }
+  return { cookies, headers, basicAuth, localStorage };
+}
+
+function parseActions(value?: PageAction[] | string): PageAction[] | undefined {
+  if (!value) return undefined;
+  if (typeof value !== "string") return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw new HttpError(
+      400,
+      "Invalid parameters",
+      "actions must be a JSON array",
+    );
+  }
+}
+
+function parseSize(
+  value: string | SizeInput,
+  defaultFit: string,
+): ResizeOptions {
+  const toDimension = (dimension?: number | string) =>
+    dimension === undefined || dimension === "" ? undefined : Number(dimension);
+
+  if (typeof value === "string") {
+    const [width, height] = value.toLowerCase().split("x");
+    return {
+      width: toDimension(width),
+      height: toDimension(height),
+      fit: defaultFit,
+    };
+  }
+  return {
+    width: toDimension(value?.width),
+    height: toDimension(value?.height),
+    fit: value?.fit || defaultFit,
+  };
+}
+
+function parseRenditions(
+  body: ScreenshotRequestBody,
+  fit: string,
+  width: number,
+  height: number,
+): RenditionOptions[] {
+  const sizes =
+    typeof body.sizes === "string"
+      ? body.sizes.split(",").filter(Boolean)
+      : Array.isArray(body.sizes)
+        ? body.sizes
+        : [];
+  const renditions: RenditionOptions[] = sizes.map((size) =>
+    parseSize(size, fit),
+  );
+
+  if (body.thumbnail && body.thumbnail !== "false") {
+    const thumbnailWidth =
+      body.thumbnail === true || body.thumbnail === "true"
+        ? 300
+        : Number(body.thumbnail);
+    // Same aspect ratio as the viewport, e.g. 300x158 for a 1200x630 card
+    renditions.push({
+      name: "thumbnail",
+      width: thumbnailWidth,
+      height: Math.round((thumbnailWidth * height) / width),
+      fit: "cover",
+    });
+  }
+
+  return renditions;
+}
+
+function parseEncodeOptions(body: ScreenshotRequestBody): EncodeOptions {
+  const flag = (value?: boolean | string) =>
+    value === undefined ? undefined : value === true || value === "true";
+  const number = (value?: string | number) =>
+    value === undefined || value === "" ? undefined : Number(value);
+
+  return {
+    lossless: flag(body.lossless),
+    palette: flag(body.palette),
+    compressionLevel: number(body.compressionLevel),
+    progressive: flag(body.progressive),
+    mozjpeg: flag(body.mozjpeg),
+    effort: number(body.effort),
+  };
+}
+
+function parseScreenshotOptions(
+  body: ScreenshotRequestBody,
+  defaultOutput: string,
+  accept = "",
+): ScreenshotOptions {
+  let format = body.format || "webp";
+  if (format === "auto") {
+    format = negotiateFormat(accept);
+  }
+  if (!["webp", "avif", "png", "jpeg", "jpg", "pdf"].includes(format)) {
+    format = "webp";
+  }
+
+  let pdf: PdfOptions | undefined;
+  if (format === "pdf") {
+    const margin =
+      typeof body.margin === "string"
+        ? {
+            top: body.margin,
+            right: body.margin,
+            bottom: body.margin,
+            left: body.margin,
+          }
+        : body.margin || {};
+    pdf = {
+      paperSize: body.paperSize || "A4",
+      landscape: body.landscape === true || body.landscape === "true",
+      printBackground:
+        body.printBackground !== false && body.printBackground !== "false",
+      margin,
+      headerTemplate: body.headerTemplate,
+      footerTemplate: body.footerTemplate,
+    };
+  }
+
+  const device = body.device ? resolveDevice(body.device) : null;
+  const deviceViewport = device?.device.viewport;
+  // Preset viewports are used as-is, only explicit sizes are clamped, so
+  // small devices such as the JioPhone 2 (240x320) keep their real width
+  const width = body.width
+    ? Math.min(Math.max(parseInt(String(body.width)), 320), 3840)
+    : deviceViewport?.width || 1200;
+  const height = body.height
+    ? Math.min(Math.max(parseInt(String(body.height)), 240), 2160)
+    : deviceViewport?.height || 630;
+  const fit = body.fit || "cover";
+
+  return {
+    url: body.url || "",
+    width,
+    height,
+    dark: body.dark === true || body.dark === "true",
+    quality: Math.min(Math.max(parseInt(String(body.quality || "80")), 1), 100),
+    format,
+    outputFormat: body.outputFormat || defaultOutput,
+    fullPage: body.fullPage === true || body.fullPage === "true",
+    delay: Math.min(parseInt(String(body.delay || "0")), 10000),
+    waitFor: body.waitFor,
+    userAgent: body.userAgent || device?.device.userAgent,
+    cacheControl: body.cache || "default",
+    ttl:
+      body.ttl !== undefined && body.ttl !== "" ? Number(body.ttl) : undefined,
+    maxAge:
+      body.maxAge !== undefined && body.maxAge !== ""
+        ? Number(body.maxAge)
+        : undefined,
+    uploadToCloud: body.uploadToS3 === true,
+    extractMeta: body.metadata !== false,
+    crop: body.crop,
+    pdf,
+    selector: body.selector || undefined,
+    padding: body.selector
+      ? parseInt(String(body.padding || "0")) || 0
+      : undefined,
+    device: device?.name || body.device || undefined,
+    deviceScaleFactor:
+      parseFloat(
+        String(
+          body.deviceScaleFactor || deviceViewport?.deviceScaleFactor || "1",
+        ),
+      ) || 1,
+    isMobile:
+      body.isMobile !== undefined
+        ? body.isMobile === true || body.isMobile === "true"
+        : deviceViewport?.isMobile || false,
+    hasTouch:
+      body.hasTouch !== undefined
+        ? body.hasTouch === true || body.hasTouch === "true"
+        : deviceViewport?.hasTouch || false,
+    css: body.css || undefined,
+    js: body.js || undefined,
+    hideSelectors: toStringList(body.hideSelectors),
+    removeSelectors: toStringList(body.removeSelectors),
+    blockCookieBanners:
+      body.blockCookieBanners === true || body.blockCookieBanners === "true",
+    block:
+      body.block !== undefined
+        ? toStringList(body.block)
+            .flatMap((item) => item.split(","))
+            .map((item) => item.trim().toLowerCase())
+            .filter((item) => item && item !== "none")
+        : undefined,
+    blockTrackers:
+      body.blockTrackers !== false && body.blockTrackers !== "false",
+    failOnHttpError:
+      body.failOnHttpError === true || body.failOnHttpError === "true",
+    credentials: parseCredentials(body),
+    actions: parseActions(body.actions),
+    resize: body.resize ? parseSize(body.resize, fit) : undefined,
+    renditions: parseRenditions(body, fit, width, height),
+    encoding: parseEncodeOptions(body),
+  };
+}
+
+// Summary for request logs; never includes credentials or the full URL,
+// which may carry tokens
+function describeOptions(options: ScreenshotOptions): object {
+  return {
+    format: options.format,
+    width: options.width,
+    height: options.height,
+    fullPage: options.fullPage,
+    dark: options.dark,
+    device: options.device,
+    selector: options.selector,
+    cache: options.cacheControl,
+    actions: options.actions?.length || 0,
+    renditions: options.renditions.length,
+    credentials: !!options.credentials,
+  };
+}
+
+async function checkScreenshotOptions(
+  options: ScreenshotOptions,
+): Promise<void> {
+  let target: string | undefined;
+  try {
+    target = new URL(options.url).hostname;
+  } catch {
+    // Reported by the checks below
+  }
+  annotateRequest({ target, options: describeOptions(options) });
+
+  if (!options.url) {
+    throw new HttpError(
+      400,
+      "Missing URL parameter",
+      "Please provide a 'url' parameter",
+    );
+  }
+
+  const urlCheck = await isUrlSafeResolved(options.url);
+  if (!urlCheck.safe) {
+    if (urlCheck.unresolved) {
+      throw new HttpError(
+        502,
+        "DNS lookup failed",
+        urlCheck.reason || "Could not resolve host",
+        "DNS_FAILURE",
+      );
+    }
+    logBlockedUrl(options.url, urlCheck.reason, "request");
+    throw new HttpError(
+      403,
+      "Blocked URL",
+      urlCheck.reason || "URL is not allowed",
+      "BLOCKED_URL",
+    );
+  }
+
+  checkCaptureParams(options);
+}
+
+// Resolves the HTML to render and the cache key it is stored under
+async function resolveRender(
+  body: RenderRequestBody,
+): Promise<{ html: string; key: string }> {
+  if ((body.html === undefined) === (body.template === undefined)) {
+    throw new HttpError(
+      400,
+      "Invalid parameters",
+      "Provide either 'html' or 'template'",
+    );
+  }
+
+  const variables = body.variables ?? {};
+  if (
+    typeof variables !== "object" ||
+    variables === null ||
+    Array.isArray(variables) ||
+    Object.values(variables).some(
+      (value) => !["string", "number", "boolean"].includes(typeof value),
+    )
+  ) {
+    throw new HttpError(
+      400,
+      "Invalid parameters",
+      "'variables' must be an object of strings, numbers or booleans",
+    );
+  }
+
+  let html: string;
+  let key: string;
+  if (body.html !== undefined) {
+    if (typeof body.html !== "string" || !body.html.trim()) {
+      throw new HttpError(
+        400,
+        "Invalid parameters",
+        "'html' must be a non-empty string",
+      );
+    }
+    if (body.variables !== undefined) {
+      throw new HttpError(
+        400,
+        "Invalid parameters",
+        "'variables' can only be used with 'template'",
+      );
+    }
+    html = body.html;
+    key = getRenderKey(html, {});
+  } else {
+    const name = String(body.template);
+    if (!isValidTemplateName(name)) {
+      throw new HttpError(
+        400,
+        "Invalid parameters",
+        "Template names may only contain letters, digits, '-' and '_'",
+      );
+    }
+    const source = await templateStore.load(name);
+    if (source === null) {
+      throw new HttpError(
+        404,
+        "Template not found",
+        `No template named '${name}'`,
+        "TEMPLATE_NOT_FOUND",
+      );
+    }
+    html = renderTemplate(source, variables);
+    key = getRenderKey(source, variables);
+  }
+
+  if (Buffer.byteLength(html) > CONFIG.MAX_HTML_BYTES) {
+    throw new HttpError(
+      413,
+      "HTML too large",
+      `Rendered HTML must be at most ${CONFIG.MAX_HTML_BYTES} bytes`,
+    );
+  }
+  return { html, key };
+}
+
+// Checks shared by URL captures and HTML renders
+function checkCaptureParams(options: ScreenshotOptions): void {
+  if (options.device && !resolveDevice(options.device)) {
+    throw new HttpError(
+      400,
+      "Unknown device",
+      `'${options.device}' is not a known device, see /api/devices`,
+    );
+  }
+
+  const paramsCheck = validateScreenshotParams({
+    width: options.width,
+    height: options.height,
+    deviceViewport: options.device
+      ? resolveDevice(options.device)?.device.viewport
+      : undefined,
+    delay: options.delay,
+    quality: options.quality,
+    format: options.format,
+    paperSize: options.pdf?.paperSize,
+    margin: options.pdf?.margin,
+    headerTemplate: options.pdf?.headerTemplate,
+    footerTemplate: options.pdf?.footerTemplate,
+    selector: options.selector,
+    padding: options.padding,
+    deviceScaleFactor: options.deviceScaleFactor,
+    css: options.css,
+    js: options.js,
+    hideSelectors: options.hideSelectors,
+    removeSelectors: options.removeSelectors,
+    block: options.block,
+    headers: options.credentials?.headers,
+    cookies: options.credentials?.cookies,
+    localStorage: options.credentials?.localStorage,
+    actions: options.actions,
+    resize: options.resize,
+    sizes: options.renditions,
+    encoding: options.encoding,
+    ttl: options.ttl,
+    maxAge: options.maxAge,
+  });
+  if (!paramsCheck.valid) {
+    throw new HttpError(
+      400,
+      "Invalid parameters",
+      paramsCheck.reason || "Invalid parameters",
+    );
+  }
+
+  if (options.pdf && (options.resize || options.renditions.length > 0)) {
+    throw new HttpError(400, "Invalid parameters", "PDFs cannot be resized");
+  }
+
+  if (options.credentials) {
+    if (options.cacheControl === "only") {
+      throw new HttpError(
+        400,
+        "Invalid parameters",
+        "Captures with credentials are never cached",
+      );
+    }
+    if (options.uploadToCloud) {
+      throw new HttpError(
+        400,
+        "Invalid parameters",
+        "Captures with credentials cannot be uploaded to S3",
+      );
+    }
+  }
+}
+
+async function renderCapture(
+  options: ScreenshotOptions,
+): Promise<RenderedCapture> {
+  const result = await captureScreenshot(options);
+  if (options.pdf) {
+    outputBytes.observe({ format: "pdf" }, result.buffer.length);
+    return { ...result, raw: result.buffer };
+  }
+
+  const processed = await processImage(result.buffer, options);
+  return { ...result, buffer: processed.buffer, raw: result.buffer };
+}
+
+const inFlightRenders = new Map<string, Promise<RenderedCapture>>();
+
+function renderToStorage(
+  filename: string,
+  options: ScreenshotOptions,
+): Promise<RenderedCapture> {
+  const inFlight = inFlightRenders.get(filename);
+  if (inFlight) {
+    coalescedRenders.inc();
+    annotateRequest({ cache: "coalesced" });
+    return inFlight;
+  }
+
+  const render = (async () => {
+    const result = await renderCapture(options);
+    await captureIndex.record(
+      {
+        filename,
+        url: options.url,
+        options: getCaptureOptions(options),
+        metadata: result.metadata,
+        size: result.buffer.length,
+      },
+      options.ttl,
+    );
+    await storage.put(filename, result.buffer, getContentType(options.format));
+    return result;
+  })().finally(() => inFlightRenders.delete(filename));
+
+  inFlightRenders.set(filename, render);
+  return render;
+}
+
+async function takeScreenshot(
+  options: ScreenshotOptions,
+): Promise<{ buffer: Buffer; payload: ScreenshotPayload }> {
+  const requestStart = Date.now();
+
+  // Captures made with credentials show another user's session, so they
+  // are never read from or written to the shared cache
+  if (options.credentials) {
+    cacheLookups.inc({ result: "miss" });
+    annotateRequest({ cache: "bypass" });
+    const rendered = await renderCapture(options);
+    return {
+      buffer: rendered.buffer,
+      payload: buildPayload(options, {
+        buffer: rendered.buffer,
+        filename: null,
+        cached: false,
+        requestStart,
+        status: rendered.metadata.status,
+        metadata: options.extractMeta ? rendered.metadata : null,
+        blockedRequests: rendered.blockedRequests,
+        actions: rendered.actions,
+        renditions: await getRenditions(options, async () => rendered.raw),
+      }),
+    };
+  }
+
+  const variant = getCacheVariant(options);
+  const filename = getImageFilename(
+    options.url,
+    options.width,
+    options.height,
+    options.dark,
+    options.format,
+    options.fullPage,
+    variant,
+  );
+  const shouldUseCache =
+    options.cacheControl !== "refresh" &&
+    (await captureIndex.isFresh(filename, options.maxAge));
+  const cachedBuffer = shouldUseCache ? await storage.get(filename) : null;
+  const cached = cachedBuffer !== null;
+
+  if (options.cacheControl === "only" && !cached) {
+    throw new HttpError(
+      404,
+      "Not cached",
+      "Screenshot not in cache",
+      "NOT_CACHED",
+    );
+  }
+
+  let imageBuffer: Buffer;
+  let status: number | null = null;
+  let metadata: PageMetadata | null = null;
+  let blockedRequests: BlockedRequests | null = null;
+  let actions: ActionResult[] | null = null;
+  let s3Url: string | undefined;
+  let raw: Buffer | null = null;
+
+  if (cachedBuffer) {
+    cacheLookups.inc({ result: "hit" });
+    annotateRequest({ cache: "hit" });
+    imageBuffer = cachedBuffer;
+    const record = await captureIndex.get(filename);
+    status = (record?.metadata as PageMetadata | null)?.status ?? null;
+  } else {
+    cacheLookups.inc({ result: "miss" });
+    annotateRequest({ cache: "miss" });
+
+    const rendered = await renderToStorage(filename, options);
+    imageBuffer = rendered.buffer;
+    raw = rendered.raw;
+    status = rendered.metadata.status;
+    metadata = options.extractMeta ? rendered.metadata : null;
+    blockedRequests = rendered.blockedRequests;
+    actions = rendered.actions;
+
+    if (options.uploadToCloud && CONFIG.S3_ENABLED) {
+      s3Url = await uploadToS3(
+        imageBuffer,
+        filename,
+        getContentType(options.format),
+      );
+    }
+  }
+
+  return {
+    buffer: imageBuffer,
+    payload: buildPayload(options, {
+      buffer: imageBuffer,
+      filename,
+      s3Url,
+      cached,
+      requestStart,
+      status,
+      metadata,
+      blockedRequests,
+      actions,
+      // A cached main image is already encoded, so missing renditions
+      // need a fresh capture
+      renditions: await getRenditions(
+        options,
+        async () => {
+          if (raw) return raw;
+          if (options.cacheControl === "only") {
+            throw new HttpError(
+              404,
+              "Not cached",
+              "Rendition not in cache",
+              "NOT_CACHED",
+            );
+          }
+          return (await captureScreenshot(options)).buffer;
+        },
+        variant,
+      ),
+    }),
+  };
+}
+
+// Renditions are encoded from the raw capture, and each is cached under its
+// own key. loadSource is only called when a rendition is not cached.
+async function getRenditions(
+  options: ScreenshotOptions,
+  loadSource: () => Promise<Buffer>,
+  variant?: object,
+): Promise<RenditionPayload[] | null> {
+  if (options.renditions.length === 0) return null;
+  let source: Promise<Buffer> | null = null;
+
+  return Promise.all(
+    options.renditions.map(async ({ name, ...size }) => {
+      const filename = options.credentials
+        ? null
+        : getImageFilename(
+            options.url,
+            options.width,
+            options.height,
+            options.dark,
+            options.format,
+            options.fullPage,
+            { ...variant, rendition: size },
+          );
+      const cachedBuffer =
+        filename &&
+        options.cacheControl !== "refresh" &&
+        (await captureIndex.isFresh(filename, options.maxAge))
+          ? await storage.get(filename)
+          : null;
+
+      let buffer: Buffer;
+      let width: number;
+      let height: number;
+      if (cachedBuffer) {
+        const info = await sharp(cachedBuffer).metadata();
+        buffer = cachedBuffer;
+        width = info.width || 0;
+        height = info.height || 0;
+      } else {
+        source ??= loadSource();
+        const processed = await processImage(await source, {
+          format: options.format,
+          quality: options.quality,
+          encoding: options.encoding,
+          crop: options.crop,
+          resize: size,
+        });
+        buffer = processed.buffer;
+        width = processed.width;
+        height = processed.height;
+        if (filename) {
+          await captureIndex.record(
+            {
+              filename,
+              url: options.url,
+              options: { ...getCaptureOptions(options), rendition: size },
+              metadata: null,
+              size: buffer.length,
+            },
+            options.ttl,
+          );
+          await storage.put(filename, buffer, getContentType(options.format));
+        }
+      }
+
+      return {
+        name: name || null,
+        width,
+        height,
+        fit: size.fit,
+        filename,
+        localPath: filename ? `/images/${filename}` : null,
+        size: buffer.length,
+        cached: cachedBuffer !== null,
+        data: filename ? undefined : buffer.toString("base64"),
+      };
+    }),
+  );
+}
+
+// Downstream caches keep an image for maxAge seconds, or until its ttl
+// runs out
+async function getCacheMaxAge(
+  filename: string | null,
+  maxAge = 86400,
+): Promise<number> {
+  const expiresAt = filename
+    ? (await captureIndex.get(filename))?.expiresAt
+    : null;
+  if (!expiresAt) return maxAge;
+  const remaining = Math.floor((Date.parse(expiresAt) - Date.now()) / 1000);
+  return Math.min(Math.max(remaining, 0), maxAge);
+}
+
+// vary is set for format=auto, whose responses differ by the client's
+// Accept header
+async function screenshotResponse(
+  options: ScreenshotOptions,
+  result: { buffer: Buffer; payload: ScreenshotPayload },
+  vary: boolean,
+): Promise<Response> {
+  const varyHeaders: Record<string, string> = vary ? { Vary: "Accept" } : {};
+
+  if (options.outputFormat === "json") {
+    return Response.json(result.payload, {
+      headers: { ...varyHeaders, ...CORS_HEADERS },
+    });
+  }
+
+  return new Response(new Uint8Array(result.buffer), {
+    headers: {
+      "Content-Type": getContentType(options.format),
+      ...varyHeaders,
+      "Cache-Control": options.credentials
+        ? "private, no-store"
+        : `public, max-age=${await getCacheMaxAge(result.payload.filename)}`,
+      "X-Cached": result.payload.cached ? "true" : "false",
+      ...(result.payload.status
+        ? { "X-Target-Status": String(result.payload.status) }
+        : {}),
+      "X-Response-Time": `${result.payload.responseTime}ms`,
+      ...CORS_HEADERS,
+    },
+  });
+}
+
+function buildPayload(
+  options: ScreenshotOptions,
+  result: {
+    buffer: Buffer;
+    filename: string | null;
+    s3Url?: string;
+    cached: boolean;
+    requestStart: number;
+    status: number | null;
+    metadata: PageMetadata | null;
+    blockedRequests: BlockedRequests | null;
+    actions: ActionResult[] | null;
+    renditions: RenditionPayload[] | null;
+  },
+): ScreenshotPayload {
+  const fileSize = result.buffer.length;
+
+  return {
+    success: true,
+    url: options.url,
+    filename: result.filename,
+    localPath: result.filename ? `/images/${result.filename}` : null,
+    s3Url: result.s3Url,
+    // Uncached captures can only be returned inline
+    data: result.filename ? undefined : result.buffer.toString("base64"),
+    width: options.width,
+    height: options.height,
+    format: options.format,
+    fullPage: options.fullPage,
+    dark: options.dark,
+    device: options.device || null,
+    deviceScaleFactor: options.deviceScaleFactor || 1,
+    quality: options.quality,
+    size: fileSize,
+    sizeKB: (fileSize / 1024).toFixed(2),
+    cached: result.cached,
+    responseTime: Date.now() - result.requestStart,
+    status: result.status,
+    errorCode: getTargetErrorCode(result.status),
+    metadata: result.metadata,
+    blockedRequests: result.blockedRequests,
+    actions: result.actions,
+    renditions: result.renditions,
+  };
+}
+
+async function loadDiffSide(
+  name: string,
+  target: DiffTarget | undefined,
+  body: DiffRequestBody,
+): Promise<DiffSide> {
+  if (target?.filename) {
+    const filename = target.filename;
+    if (sanitizeFilename(filename) !== filename || filename.endsWith(".pdf")) {
+      throw new HttpError(
+        400,
+        "Invalid parameters",
+        `${name}.filename must be a stored image`,
+      );
+    }
+    const buffer = await storage.get(filename);
+    if (!buffer) {
+      throw new HttpError(404, "Not found", `${filename} is not in storage`);
+    }
+    return { url: null, filename, cached: true, buffer, private: false };
+  }
+
+  if (target?.url) {
+    // Lossless by default so compression noise does not show up as changes
+    const options = parseScreenshotOptions(
+      { ...body, format: body.format || "png", url: target.url },
+      "json",
+    );
+    if (options.pdf) {
+      throw new HttpError(400, "Invalid parameters", "PDFs cannot be diffed");
+    }
+    await checkScreenshotOptions(options);
+    const result = await takeScreenshot(options);
+    return {
+      url: target.url,
+      filename: result.payload.filename,
+      cached: result.payload.cached,
+      buffer: result.buffer,
+      private: !!options.credentials,
+    };
+  }
+
+  throw new HttpError(
+    400,
+    "Invalid parameters",
+    `Provide ${name}.url or ${name}.filename`,
+  );
+}
+
+async function runDiff(body: DiffRequestBody) {
+  const threshold = body.threshold ?? 0.1;
+  const tolerance = body.tolerance ?? 0.1;
+  if (typeof threshold !== "number" || threshold < 0 || threshold > 100) {
+    throw new HttpError(
+      400,
+      "Invalid parameters",
+      "threshold must be a percentage between 0 and 100",
+    );
+  }
+  if (typeof tolerance !== "number" || tolerance < 0 || tolerance > 1) {
+    throw new HttpError(
+      400,
+      "Invalid parameters",
+      "tolerance must be between 0 and 1",
+    );
+  }
+
+  const [baseline, current] = await Promise.all([
+    loadDiffSide("baseline", body.baseline, body),
+    loadDiffSide("current", body.current, body),
+  ]);
+
+  let diff;
+  try {
+    diff = await diffImages(baseline.buffer, current.buffer, tolerance);
+  } catch (error) {
+    if (error instanceof DiffSizeError) {
+      throw new HttpError(413, "Image too large", error.message);
+    }
+    throw error;
+  }
+
+  // Diffs of captures made with credentials are returned inline only
+  let filename: string | null = null;
+  if (!baseline.private && !current.private) {
+    const key = createHash("md5")
+      .update(baseline.buffer)
+      .update(current.buffer)
+      .update(String(tolerance))
+      .digest("hex");
+    filename = `diff-${key}.png`;
+    await storage.put(filename, diff.image, "image/png");
+  }
+
+  const describe = (side: DiffSide) => ({
+    url: side.url,
+    filename: side.filename,
+    localPath: side.filename ? `/images/${side.filename}` : null,
+    cached: side.cached,
+  });
+
+  return {
+    image: diff.image,
+    payload: {
+      success: true,
+      passed: diff.mismatchPercentage <= threshold,
+      mismatchPercentage: diff.mismatchPercentage,
+      mismatchedPixels: diff.mismatchedPixels,
+      threshold,
+      tolerance,
+      width: diff.width,
+      height: diff.height,
+      regions: diff.regions,
+      diff: {
+        filename,
+        localPath: filename ? `/images/${filename}` : null,
+        data: filename ? undefined : diff.image.toString("base64"),
+      },
+      baseline: describe(baseline),
+      current: describe(current),
+    },
+  };
+}
+
+const screenshotJobs = createJobQueue<ScreenshotOptions, ScreenshotPayload>({
+  concurrency: CONFIG.MAX_CONCURRENT_JOBS,
+  ttl: CONFIG.JOB_TTL_MINUTES * 60 * 1000,
+  maxQueued: CONFIG.MAX_QUEUED_JOBS,
+  maxTracked: CONFIG.MAX_TRACKED_JOBS,
+  webhookSecret: CONFIG.WEBHOOK_SECRET,
+  webhookRetries: CONFIG.WEBHOOK_MAX_RETRIES,
+  checkCallbackUrl: async (callbackUrl) => {
+    const check = await isUrlSafeResolved(callbackUrl);
+    if (!check.safe) logBlockedUrl(callbackUrl, check.reason, "callback");
+    return check;
+  },
+  // Jobs run outside the submitting request's context, so their timings are
+  // not attached to the POST's log line
+  run: async (options) => {
+    try {
+      return (await requestContext.exit(() => takeScreenshot(options))).payload;
+    } catch (error) {
+      const classified = classifyError(error);
+      if (isServerFault(classified)) unexpectedErrors.inc();
+      throw classified;
+    }
+  },
+});
+
+setInterval(() => screenshotJobs.purgeExpired(), 60000);
+
+// Jobs submitted without a key belong to the submitting IP
+function getJobOwner(apiKey: ApiKey | null, ip: string): string {
+  return apiKey ? `key:${getKeyId(apiKey.key)}` : `ip:${ip}`;
+}
+
+metrics.collect({
+  name: "jobs",
+  help: "Async jobs by state",
+  collect: () => {
+    const status = screenshotJobs.status();
+    return [
+      { labels: { state: "queued" }, value: status.queued },
+      { labels: { state: "running" }, value: status.running },
+    ];
+  },
+});
+
+const monitorStore = createMonitorStore({
+  file: CONFIG.MONITORS_FILE,
+  storage,
+  historyLimit: CONFIG.MONITOR_HISTORY_LIMIT,
+  changeThreshold: CONFIG.MONITOR_CHANGE_THRESHOLD,
+  capture: async (monitor) => {
+    const options = parseScreenshotOptions(
+      { ...monitor.options, url: monitor.url },
+      "json",
+    );
+    // Re-checked on every run in case the host now resolves elsewhere
+    await checkScreenshotOptions(options);
+    const rendered = await renderCapture(options);
+    return {
+      buffer: rendered.buffer,
+      format: options.format,
+      contentType: getContentType(options.format),
+    };
+  },
+});
+
+setInterval(() => void monitorStore.runDue(), 30000);
+setInterval(() => monitorStore.flush(), 60000);
+
+async function checkMonitorInput(
+  input: MonitorInput,
+  existing?: { url: string; options: Record<string, unknown> },
+): Promise<void> {
+  if (!existing && (!input.url || !input.schedule)) {
+    throw new HttpError(
+      400,
+      "Invalid parameters",
+      "Please provide 'url' and 'schedule'",
+    );
+  }
+
+  if (input.name !== undefined && typeof input.name !== "string") {
+    throw new HttpError(400, "Invalid parameters", "name must be a string");
+  }
+
+  if (input.enabled !== undefined && typeof input.enabled !== "boolean") {
+    throw new HttpError(400, "Invalid parameters", "enabled must be a boolean");
+  }
+
+  if (input.schedule !== undefined) {
+    const schedule =
+      typeof input.schedule === "string" ? parseSchedule(input.schedule) : null;
+    if (!schedule) {
+      throw new HttpError(
+        400,
+        "Invalid schedule",
+        "Use a duration like 15m, 6h or 1d, @hourly/@daily/@weekly/@monthly, or a five-field cron expression",
+      );
+    }
+
+    let interval: number;
+    try {
+      interval = minimumInterval(schedule);
+    } catch (error) {
+      throw new HttpError(
+        400,
+        "Invalid schedule",
+        error instanceof Error ? error.message : "Schedule never runs",
+      );
+    }
+    if (interval < CONFIG.MONITOR_MIN_INTERVAL_MINUTES * 60 * 1000) {
+      throw new HttpError(
+        400,
+        "Invalid schedule",
+        `Monitors can run at most every ${CONFIG.MONITOR_MIN_INTERVAL_MINUTES} minutes`,
+      );
+    }
+  }
+
+  if (
+    input.options !== undefined &&
+    (typeof input.options !== "object" ||
+      input.options === null ||
+      Array.isArray(input.options))
+  ) {
+    throw new HttpError(400, "Invalid parameters", "options must be an object");
+  }
+
+  const options = parseScreenshotOptions(
+    {
+      ...(input.options ?? existing?.options),
+      url: input.url ?? existing?.url,
+    },
+    "json",
+  );
+  if (options.credentials) {
+    throw new HttpError(
+      400,
+      "Invalid parameters",
+      "Monitors cannot store cookies, headers or credentials",
+    );
+  }
+  if (options.pdf) {
+    throw new HttpError(
+      400,
+      "Invalid parameters",
+      "Monitors capture images, not PDFs",
+    );
+  }
+  await checkScreenshotOptions(options);
+}
+
+function monitorHistoryView(id: string, params: URLSearchParams) {
+  const history = monitorStore.history(id);
+  if (!history) return null;
+
+  let entries = [...history].reverse();
+  if (params.get("changed") === "true") {
+    entries = entries.filter((entry) => entry.changed);
+  }
+  const limit = parseInt(params.get("limit") || "0");
+  if (limit > 0) {
+    entries = entries.slice(0, limit);
+  }
+
+  return entries.map((entry) => ({
+    ...entry,
+    localPath: entry.filename ? `/images/${entry.filename}` : null,
+  }));
+}
+
+function parseBatchItems(body: BatchRequestBody): ScreenshotRequestBody[] {
+  const items = body.items ?? body.urls;
+
+  if (!Array.isArray(items) || items.length === 0) {
+    throw new HttpError(
+      400,
+      "Invalid request",
+      "Provide a non-empty 'items' array of URLs or screenshot options",
+    );
+  }
+
+  if (items.length > CONFIG.MAX_BATCH_ITEMS) {
+    throw new HttpError(
+      400,
+      "Too many items",
+      `Maximum ${CONFIG.MAX_BATCH_ITEMS} items per batch`,
+    );
+  }
+
+  const defaults = body.defaults || {};
+  return items.map((item) =>
+    typeof item === "string"
+      ? { ...defaults, url: item }
+      : { ...defaults, ...item },
+  );
+}
+
+function getBatchStreamMode(
+  body: BatchRequestBody,
+  req: Request,
+): "ndjson" | "sse" | null {
+  const accept = req.headers.get("accept") || "";
+  if (body.stream === "sse" || accept.includes("text/event-stream")) {
+    return "sse";
+  }
+  if (body.stream === "ndjson" || accept.includes("application/x-ndjson")) {
+    return "ndjson";
+  }
+  return null;
+}
+
+// Each item is validated on its own, so one bad or blocked URL is reported
+// in its result instead of failing the whole batch
+async function captureBatchItem(
+  item: ScreenshotRequestBody,
+  index: number,
+): Promise<BatchCapture> {
+  let options: ScreenshotOptions | null = null;
+  try {
+    const parsed = parseScreenshotOptions(item, "json");
+    options = parsed;
+    // Items run outside the batch's request context, so their targets,
+    // options and timings do not overwrite each other on its log line
+    const { buffer, payload } = await requestContext.exit(async () => {
+      await checkScreenshotOptions(parsed);
+      return takeScreenshot(parsed);
+    });
+    return { result: { index, ...payload }, buffer, options };
+  } catch (error) {
+    const classified = classifyError(error, "Capture failed");
+    if (isServerFault(classified)) unexpectedErrors.inc();
+    return {
+      result: {
+        index,
+        success: false,
+        url: item.url || "",
+        error: classified.message,
+        code: classified.code,
+      },
+      buffer: null,
+      options,
+    };
+  }
+}
+
+// Runs items with at most `concurrency` captures in flight and reports each
+// result as soon as it finishes. Stops starting new items once the client
+// has gone away.
+async function runBatch(
+  items: ScreenshotRequestBody[],
+  concurrency: number,
+  signal: AbortSignal,
+  onResult: (capture: BatchCapture) => void,
+): Promise<void> {
+  let next = 0;
+
+  async function worker() {
+    while (next < items.length && !signal.aborted) {
+      const index = next++;
+      onResult(await captureBatchItem(items[index], index));
+    }
+  }
+
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, items.length) }, worker),
+  );
+}
+
+function streamBatch(
+  items: ScreenshotRequestBody[],
+  concurrency: number,
+  mode: "ndjson" | "sse",
+  signal: AbortSignal,
+): Response {
+  const encoder = new TextEncoder();
+  const encode = (event: string, data: object) =>
+    encoder.encode(
+      mode === "sse"
+        ? `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+        : `${JSON.stringify({ event, ...data })}\n`,
+    );
+
+  let closed = false;
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let succeeded = 0;
+      await runBatch(items, concurrency, signal, ({ result }) => {
+        if (result.success) succeeded++;
+        if (!closed) controller.enqueue(encode("result", result));
+      });
+
+      if (!closed) {
+        controller.enqueue(
+          encode("done", {
+            total: items.length,
+            succeeded,
+            failed: items.length - succeeded,
+          }),
+        );
+        controller.close();
+      }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type":
+        mode === "sse" ? "text/event-stream" : "application/x-ndjson",
+      "Cache-Control": "no-cache",
+      ...CORS_HEADERS,
+    },
+  });
+}
+
+const MAX_ARCHIVE_FILES = 100;
+
+interface ManifestEntry {
+  file: string;
+  filename: string | null;
+  url: string | null;
+  options: Record<string, unknown> | null;
+  metadata: unknown;
+  size: number;
+}
+
+// Archive entries are numbered so names stay unique and keep request order
+function getArchiveEntryName(
+  position: number,
+  source: string,
+  extension: string,
+): string {
+  let base = source;
+  try {
+    const parsed = new URL(source);
+    base = parsed.hostname + parsed.pathname.replace(/\/+$/, "");
+  } catch {
+    // Not a URL, e.g. a stored filename without an index record
+  }
+  const name = sanitizeFilename(base).slice(0, 100);
+  return `${String(position).padStart(3, "0")}-${name}.${extension}`;
+}
+
+// Streams a ZIP whose entries are added by `build`, followed by the
+// manifest it returns
+function streamArchive(
+  name: string,
+  build: (
+    addFile: (entryName: string, data: Buffer) => void,
+  ) => Promise<object>,
+): Response {
+  let closed = false;
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const zip = createZipWriter((chunk) => {
+        if (!closed) controller.enqueue(chunk);
+      });
+      try {
+        const manifest = await build(zip.addFile);
+        zip.addFile(
+          "manifest.json",
+          Buffer.from(JSON.stringify(manifest, null, 2)),
+        );
+        zip.finish();
+        if (!closed) controller.close();
+      } catch (error) {
+        logger.error("archive_failed", {
+          message: error instanceof Error ? error.message : "Unknown error",
+        });
+        if (!closed) controller.error(error);
+      }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "application/zip",
+      "Content-Disposition": `attachment; filename="${name}"`,
+      "Cache-Control": "no-store",
+      ...CORS_HEADERS,
+    },
+  });
+}
+
+function zipBatch(
+  items: ScreenshotRequestBody[],
+  concurrency: number,
+  signal: AbortSignal,
+): Response {
+  return streamArchive(`batch-${Date.now()}.zip`, async (addFile) => {
+    const entries: ManifestEntry[] = [];
+    const failed: BatchResult[] = [];
+
+    await runBatch(
+      items,
+      concurrency,
+      signal,
+      ({ result, buffer, options }) => {
+        if (!result.success || !buffer || !options) {
+          failed.push(result);
+          return;
+        }
+        const file = getArchiveEntryName(
+          result.index + 1,
+          result.url,
+          options.format,
+        );
+        addFile(file, buffer);
+        entries.push({
+          file,
+          filename: result.filename,
+          url: result.url,
+          options: getCaptureOptions(options),
+          metadata: result.metadata,
+          size: buffer.length,
+        });
+      },
+    );
+
+    return {
+      createdAt: new Date().toISOString(),
+      total: items.length,
+      succeeded: entries.length,
+      failed: failed.length,
+      entries,
+      errors: failed,
+    };
+  });
+}
+
+async function archiveFiles(params: URLSearchParams): Promise<Response> {
+  const files = [
+    ...new Set(
+      params
+        .getAll("files")
+        .flatMap((value) => value.split(","))
+        .map((value) => value.trim())
+        .filter(Boolean),
+    ),
+  ];
+
+  if (files.length === 0) {
+    throw new HttpError(
+      400,
+      "Invalid parameters",
+      "Provide stored filenames in 'files'",
+    );
+  }
+  if (files.length > MAX_ARCHIVE_FILES) {
+    throw new HttpError(
+      400,
+      "Invalid parameters",
+      `At most ${MAX_ARCHIVE_FILES} files per archive`,
+    );
+  }
+  for (const filename of files) {
+    if (sanitizeFilename(filename) !== filename || isCaptureRecord(filename)) {
+      throw new HttpError(
+        400,
+        "Invalid parameters",
+        `'${filename}' is not a valid filename`,
+      );
+    }
+  }
+
+  const missing: string[] = [];
+  for (const filename of files) {
+    if (!(await storage.exists(filename))) missing.push(filename);
+  }
+  if (missing.length > 0) {
+    throw new HttpError(
+      404,
+      "Not found",
+      `Not in storage: ${missing.join(", ")}`,
+    );
+  }
+
+  return streamArchive(`archive-${Date.now()}.zip`, async (addFile) => {
+    const entries: ManifestEntry[] = [];
+
+    // One file in memory at a time
+    for (const [i, filename] of files.entries()) {
+      const buffer = await storage.get(filename);
+      if (!buffer) continue;
+
+      const record = await captureIndex.get(filename);
+      const extension = filename.split(".").pop() || "bin";
+      const file = getArchiveEntryName(
+        i + 1,
+        record?.url || filename.replace(/\.[^.]+$/, ""),
+        extension,
+      );
+      addFile(file, buffer);
+      entries.push({
+        file,
+        filename,
+        url: record?.url ?? null,
+        options: record?.options ?? null,
+        metadata: record?.metadata ?? null,
+        size: buffer.length,
+      });
+    }
+
+    return { createdAt: new Date().toISOString(), entries };
+  });
+}
+
+const MAX_CACHE_PAGE = 1000;
+
+// Listing and deleting cache entries affects every client, so anonymous
+// requests and ordinary keys are refused
+function authorizeCacheAdmin(req: Request, url: URL, ip: string): void {
+  if (!getRequestApiKey(req, url)) {
+    throw new HttpError(
+      401,
+      "Unauthorized",
+      "An API key is required to manage the cache",
+    );
+  }
+  if (!authorizeRequest(req, url, ip)?.manageCache) {
+    throw new HttpError(
+      403,
+      "Forbidden",
+      "This API key is not allowed to manage the cache",
+    );
+  }
+}
+
+function getCacheFilter(params: URLSearchParams): CaptureFilter {
+  const filter: CaptureFilter = {
+    url: params.get("url") || undefined,
+    prefix: params.get("prefix") || undefined,
+    host: params.get("host") || undefined,
+  };
+  if (filter.prefix) {
+    try {
+      new URL(filter.prefix);
+    } catch {
+      throw new HttpError(
+        400,
+        "Invalid parameters",
+        "'prefix' must be an absolute URL, e.g. https://example.com/blog/",
+      );
+    }
+  }
+  return filter;
+}
+
+async function listCache(params: URLSearchParams): Promise<Response> {
+  const filter = getCacheFilter(params);
+  const limit = Math.min(
+    Math.max(parseInt(params.get("limit") || "100") || 100, 1),
+    MAX_CACHE_PAGE,
+  );
+  const offset = Math.max(parseInt(params.get("offset") || "0") || 0, 0);
+  const records = await captureIndex.list(filter);
+  const now = Date.now();
+
+  return Response.json(
+    {
+      success: true,
+      total: records.length,
+      offset,
+      limit,
+      entries: records
+        .slice(offset, offset + limit)
+        .map(({ metadata, ...record }) => ({
+          ...record,
+          localPath: `/images/${record.filename}`,
+          expired: !!record.expiresAt && Date.parse(record.expiresAt) <= now,
+        })),
+    },
+    { headers: CORS_HEADERS },
+  );
+}
+
+// Files cached before the index existed can only be deleted by filename
+async function deleteCache(params: URLSearchParams): Promise<Response> {
+  const filename = params.get("filename");
+  const filter = getCacheFilter(params);
+  const selectors = [filename, filter.url, filter.prefix, filter.host];
+  if (selectors.filter(Boolean).length !== 1) {
+    throw new HttpError(
+      400,
+      "Invalid parameters",
+      "Provide exactly one of 'filename', 'url', 'prefix' or 'host'",
+    );
+  }
+
+  let files: string[];
+  if (filename) {
+    if (sanitizeFilename(filename) !== filename) {
+      throw new HttpError(
+        400,
+        "Invalid parameters",
+        `'${filename}' is not a valid filename`,
+      );
+    }
+    if (filename.startsWith(MONITOR_FILE_PREFIX)) {
+      throw new HttpError(
+        400,
+        "Invalid parameters",
+        "Monitor history is managed through /api/monitors",
+      );
+    }
+    if (
+      isCaptureRecord(filename) ||
+      (!(await captureIndex.get(filename)) && !(await storage.exists(filename)))
+    ) {
+      throw new HttpError(404, "Not found", `Not in cache: ${filename}`);
+    }
+    files = [filename];
+  } else {
+    files = (await captureIndex.list(filter)).map((record) => record.filename);
+  }
+
+  for (const file of files) {
+    await storage.delete(file);
+    await captureIndex.remove(file);
+  }
+  logger.info("cache_invalidated", {
+    filter: filename ? { filename } : filter,
+    deleted: files.length,
+  });
+
+  return Response.json(
+    { success: true, deleted: files.length, files },
+    { headers: CORS_HEADERS },
+  );
+}
 
-    for (const file of files) {
-      const age = now - file.mtime;
-      const shouldDelete = age > maxAge || currentSize > maxSize;
+async function handleRequest(
+  req: Request,
+  url: URL,
+  ip: string,
+): Promise<Response> {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 204, headers: CORS_HEADERS });
+  }
 
-      if (shouldDelete) {
-        unlinkSync(file.path);
-        deleted++;
-        freed += file.size;
-        currentSize -= file.size;
-      }
-    }
+  if (url.pathname === "/") {
+    return Response.json(
+      {
+        name: "Screenshot API",
+        version: "2.0.0",
+        features: [
+          "Multiple formats (webp, avif, png, jpeg, pdf)",
+          "Full page screenshots",
+          "Wait/Delay support",
+          "Metadata extraction",
+          "Batch processing",
+          "Async jobs with webhooks",
+          "Cache control",
+          "S3/R2 upload",
+          "Auto cleanup",
+          "Usage stats",
+        ],
+        endpoints: {
+          screenshot: "GET/POST /api/screenshot",
+          meta: "GET/POST /api/meta",
+          render: "POST /api/render",
+          batch: "POST /api/batch",
+          archive: "GET /api/archive?files=<filename>,...",
+          cache: "GET/DELETE /api/cache",
+          jobs: "POST /api/jobs, GET /api/jobs/<id>",
+          monitors:
+            "GET/POST /api/monitors, GET/PATCH/DELETE /api/monitors/<id>, GET /api/monitors/<id>/history",
+          sign: "POST /api/sign",
+          diff: "POST /api/diff",
+          devices: "GET /api/devices",
+          images: "GET /images/<filename>",
+          stats: "GET /stats",
+          metrics: "GET /metrics",
+          health: "GET /health",
+        },
+      },
+      { headers: CORS_HEADERS },
+    );
+  }
 
-    return { deleted, freedMB: freed / (1024 * 1024) };
-  } catch {
-    return { deleted: 0, freedMB: 0 };
+  if (url.pathname === "/health") {
+    const storageStats = getStorageStats();
+    const poolStatus = pagePool.status();
+    return Response.json(
+      {
+        status: "ok",
+        uptime: Math.floor((Date.now() - startTime) / 1000),
+        images: storageStats.count,
+        storageMB: (storageStats.size / (1024 * 1024)).toFixed(2),
+        storageCountedAt: storageStats.countedAt
+          ? new Date(storageStats.countedAt).toISOString()
+          : null,
+        storage: storage.name,
+        browser: poolStatus.browser,
+        pool: poolStatus,
+        jobs: screenshotJobs.status(),
+        monitors: monitorStore.status(),
+        s3Enabled: CONFIG.S3_ENABLED,
+      },
+      { headers: CORS_HEADERS },
+    );
   }
-}
 
-setInterval(async () => {
-  if (CONFIG.AUTO_CLEANUP_ENABLED) {
-    await cleanupOldFiles();
+  if (url.pathname === "/metrics") {
+    return new Response(await metrics.render(), {
+      headers: {
+        "Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+        ...CORS_HEADERS,
+      },
+    });
   }
-}, 3600000);
 
-const server = Bun.serve({
-  port: CONFIG.PORT,
-  hostname: CONFIG.HOST,
-  development: false,
-  idleTimeout: 255,
+  if (url.pathname === "/stats") {
+    const storageStats = getStorageStats();
+    const totalRequests =
+      CAPTURE_ROUTES.reduce(
+        (sum, route) => sum + httpRequests.get({ route }),
+        0,
+      ) + httpRequests.get({ route: "/api/jobs", method: "POST" });
+    const cacheHits = cacheLookups.get({ result: "hit" });
+    const cacheHitRate =
+      totalRequests > 0 ? ((cacheHits / totalRequests) * 100).toFixed(2) : "0";
 
-  async fetch(req) {
-    const url = new URL(req.url);
-    const ip = server.requestIP(req)?.address || "unknown";
+    return Response.json(
+      {
+        totalRequests,
+        cacheHits,
+        cacheMisses: cacheLookups.get({ result: "miss" }),
+        cacheHitRate: `${cacheHitRate}%`,
+        errors: unexpectedErrors.get(),
+        uploadedToS3: s3Uploads.get(),
+        coalescedRequests: coalescedRenders.get(),
+        inFlightRenders: inFlightRenders.size,
+        storageMB: (storageStats.size / (1024 * 1024)).toFixed(2),
+        totalImages: storageStats.count,
+      },
+      { headers: CORS_HEADERS },
+    );
+  }
+
+  if (url.pathname === "/api/screenshot") {
+    try {
+      const signed = checkSignature(req, url);
+      authorizeRequest(req, url, ip, signed);
 
-    if (req.method === "OPTIONS") {
-      return new Response(null, { status: 204, headers: CORS_HEADERS });
+      const body =
+        req.method === "POST"
+          ? ((await req.json()) as ScreenshotRequestBody)
+          : screenshotBodyFromQuery(url.searchParams);
+      const options = parseScreenshotOptions(
+        body,
+        req.method === "POST" ? "json" : "image",
+        req.headers.get("accept") || "",
+      );
+      await checkScreenshotOptions(options);
+
+      const result = await takeScreenshot(options);
+      return await screenshotResponse(options, result, body.format === "auto");
+    } catch (error) {
+      return errorResponse(error, "Screenshot failed");
     }
+  }
 
-    if (url.pathname === "/") {
+  if (url.pathname === "/api/render") {
+    if (req.method !== "POST") {
       return Response.json(
-        {
-          name: "Screenshot API",
-          version: "2.0.0",
-          features: [
-            "Multiple formats (webp, png, jpeg)",
-            "Full page screenshots",
-            "Wait/Delay support",
-            "Metadata extraction",
-            "Batch processing",
-            "Cache control",
-            "S3/R2 upload",
-            "Auto cleanup",
-            "Usage stats",
-          ],
-          endpoints: {
-            screenshot: "GET/POST /api/screenshot",
-            batch: "POST /api/batch",
-            images: "GET /images/<filename>",
-            stats: "GET /stats",
-            health: "GET /health",
-          },
-        },
-        { headers: CORS_HEADERS },
+        { error: "Method not allowed" },
+        { status: 405, headers: CORS_HEADERS },
       );
     }
 
-    if (url.pathname === "/health") {
-      const imageCount = getImageCount();
-      const storageSize = getStorageSize();
-      return Response.json(
-        {
-          status: "ok",
-          uptime: Math.floor((Date.now() - startTime) / 1000),
-          images: imageCount,
-          storageMB: (storageSize / (1024 * 1024)).toFixed(2),
-          browser: browser ? "connected" : "not started",
-          s3Enabled: CONFIG.S3_ENABLED,
-        },
-        { headers: CORS_HEADERS },
+    try {
+      authorizeRequest(req, url, ip);
+
+      const body = (await req.json()) as RenderRequestBody;
+      const options = parseScreenshotOptions(
+        { ...body, url: "" },
+        "json",
+        req.headers.get("accept") || "",
       );
+      const render = await resolveRender(body);
+      options.url = `render:${render.key}`;
+      options.html = render.html;
+      options.allowNetwork =
+        body.allowNetwork === true || body.allowNetwork === "true";
+
+      annotateRequest({
+        target: body.template ? `template:${body.template}` : "html",
+        options: describeOptions(options),
+      });
+      if (options.credentials) {
+        throw new HttpError(
+          400,
+          "Invalid parameters",
+          "Credentials cannot be used with rendered HTML",
+        );
+      }
+      checkCaptureParams(options);
+
+      const result = await takeScreenshot(options);
+      return await screenshotResponse(options, result, body.format === "auto");
+    } catch (error) {
+      return errorResponse(error, "Render failed");
     }
+  }
+
+  if (url.pathname === "/api/meta") {
+    try {
+      authorizeRequest(req, url, ip);
 
-    if (url.pathname === "/stats") {
-      const storageSize = getStorageSize();
-      const cacheHitRate =
-        stats.totalRequests > 0
-          ? ((stats.cacheHits / stats.totalRequests) * 100).toFixed(2)
-          : "0";
+      const body =
+        req.method === "POST"
+          ? ((await req.json()) as ScreenshotRequestBody)
+          : screenshotBodyFromQuery(url.searchParams);
+      const options = parseScreenshotOptions(body, "json");
+      await checkScreenshotOptions(options);
+
+      const start = Date.now();
+      const result = await captureScreenshot({
+        ...options,
+        block: options.block ?? META_BLOCKED_TYPES,
+        // The target's status is reported in the metadata instead
+        failOnHttpError: false,
+        metadataOnly: true,
+      });
 
       return Response.json(
         {
-          totalRequests: stats.totalRequests,
-          cacheHits: stats.cacheHits,
-          cacheMisses: stats.cacheMisses,
-          cacheHitRate: `${cacheHitRate}%`,
-          errors: stats.errors,
-          uploadedToS3: stats.uploadedToS3,
-          storageMB: (storageSize / (1024 * 1024)).toFixed(2),
-          totalImages: getImageCount(),
+          success: true,
+          url: options.url,
+          metadata: result.metadata,
+          blockedRequests: result.blockedRequests,
+          actions: result.actions,
+          responseTime: Date.now() - start,
         },
         { headers: CORS_HEADERS },
       );
+    } catch (error) {
+      return errorResponse(error, "Metadata extraction failed");
     }
+  }
 
-    if (url.pathname === "/api/screenshot") {
-      const requestStart = Date.now();
-      stats.totalRequests++;
+  if (url.pathname === "/api/diff") {
+    if (req.method !== "POST") {
+      return Response.json(
+        { error: "Method not allowed" },
+        { status: 405, headers: CORS_HEADERS },
+      );
+    }
 
-      try {
-        if (!checkRateLimit(ip)) {
-          return Response.json(
-            {
-              error: "Rate limit exceeded",
-              message: `Maximum ${CONFIG.MAX_REQUESTS_PER_IP} requests per hour`,
-            },
-            { status: 429, headers: CORS_HEADERS },
-          );
-        }
+    try {
+      const apiKey = identifyRequest(req, url);
 
-        let targetUrl: string | null;
-        let width: number;
-        let height: number;
-        let dark: boolean;
-        let quality: number;
-        let format: string;
-        let outputFormat: string;
-        let fullPage: boolean;
-        let delay: number;
-        let waitFor: string | undefined;
-        let userAgent: string | undefined;
-        let cacheControl: string;
-        let uploadToCloud: boolean;
-        let extractMeta: boolean;
-        let crop:
-          | { x: number; y: number; width: number; height: number }
-          | undefined;
-
-        if (req.method === "POST") {
-          const body = (await req.json()) as ScreenshotRequestBody;
-          targetUrl = body.url || null;
-          width = Math.min(
-            Math.max(parseInt(String(body.width || "1200")), 320),
-            3840,
-          );
-          height = Math.min(
-            Math.max(parseInt(String(body.height || "630")), 240),
-            2160,
-          );
-          dark = body.dark === true || body.dark === "true";
-          quality = Math.min(
-            Math.max(parseInt(String(body.quality || "80")), 1),
-            100,
-          );
-          format = body.format || "webp";
-          outputFormat = body.outputFormat || "json";
-          fullPage = body.fullPage === true || body.fullPage === "true";
-          delay = Math.min(parseInt(String(body.delay || "0")), 10000);
-          waitFor = body.waitFor;
-          userAgent = body.userAgent;
-          cacheControl = body.cache || "default";
-          uploadToCloud = body.uploadToS3 === true;
-          extractMeta = body.metadata !== false;
-          crop = body.crop;
-        } else {
-          targetUrl = url.searchParams.get("url");
-          width = Math.min(
-            Math.max(parseInt(url.searchParams.get("width") || "1200"), 320),
-            3840,
-          );
-          height = Math.min(
-            Math.max(parseInt(url.searchParams.get("height") || "630"), 240),
-            2160,
-          );
-          dark = url.searchParams.get("dark") === "true";
-          quality = Math.min(
-            Math.max(parseInt(url.searchParams.get("quality") || "80"), 1),
-            100,
-          );
-          format = url.searchParams.get("format") || "webp";
-          outputFormat = url.searchParams.get("output") || "image";
-          fullPage = url.searchParams.get("fullPage") === "true";
-          delay = Math.min(
-            parseInt(url.searchParams.get("delay") || "0"),
-            10000,
-          );
-          waitFor = url.searchParams.get("waitFor") || undefined;
-          userAgent = url.searchParams.get("userAgent") || undefined;
-          cacheControl = url.searchParams.get("cache") || "default";
-          uploadToCloud = url.searchParams.get("uploadToS3") === "true";
-          extractMeta = url.searchParams.get("metadata") !== "false";
-          crop = undefined;
-        }
+      const body = (await req.json()) as DiffRequestBody;
+      // Sides given as stored filenames are not captured, so are free
+      const captures = [body.baseline, body.current].filter(
+        (target) => !target?.filename && target?.url,
+      ).length;
+      chargeRequest(apiKey, ip, Math.max(captures, 1));
+      const result = await runDiff(body);
 
-        if (!["webp", "png", "jpeg", "jpg"].includes(format)) {
-          format = "webp";
-        }
+      if (body.outputFormat === "image") {
+        return new Response(new Uint8Array(result.image), {
+          headers: {
+            "Content-Type": "image/png",
+            "X-Diff-Mismatch": String(result.payload.mismatchPercentage),
+            "X-Diff-Passed": String(result.payload.passed),
+            ...CORS_HEADERS,
+          },
+        });
+      }
 
-        if (!targetUrl) {
-          return Response.json(
-            {
-              error: "Missing URL parameter",
-              message: "Please provide a 'url' parameter",
-            },
-            { status: 400, headers: CORS_HEADERS },
-          );
-        }
+      return Response.json(result.payload, { headers: CORS_HEADERS });
+    } catch (error) {
+      return errorResponse(error, "Diff failed");
+    }
+  }
 
-        const urlCheck = isUrlSafe(targetUrl);
-        if (!urlCheck.safe) {
-          return Response.json(
-            {
-              error: "Blocked URL",
-              message: urlCheck.reason || "URL is not allowed",
-            },
-            { status: 403, headers: CORS_HEADERS },
-          );
-        }
+  if (url.pathname === "/api/devices") {
+    return Response.json({ devices: listDevices() }, { headers: CORS_HEADERS });
+  }
 
-        const paramsCheck = validateScreenshotParams({
-          width,
-          height,
-          delay,
-          quality,
-          format,
-        });
-        if (!paramsCheck.valid) {
-          return Response.json(
-            {
-              error: "Invalid parameters",
-              message: paramsCheck.reason || "Invalid parameters",
-            },
-            { status: 400, headers: CORS_HEADERS },
-          );
-        }
+  if (url.pathname === "/api/sign") {
+    if (req.method !== "POST") {
+      return Response.json(
+        { error: "Method not allowed" },
+        { status: 405, headers: CORS_HEADERS },
+      );
+    }
+
+    try {
+      if (!CONFIG.URL_SIGNING_SECRET) {
+        throw new HttpError(
+          501,
+          "Signing disabled",
+          "URL_SIGNING_SECRET is not configured",
+        );
+      }
 
-        const filename = getImageFilename(
-          targetUrl,
-          width,
-          height,
-          dark,
-          format,
-          fullPage,
+      if (!getRequestApiKey(req, url)) {
+        throw new HttpError(401, "Unauthorized", "An API key is required");
+      }
+      authorizeRequest(req, url, ip);
+
+      const { expiresIn, ...params } = (await req.json()) as SignRequestBody;
+      if (expiresIn !== undefined && typeof expiresIn !== "number") {
+        throw new HttpError(
+          400,
+          "Invalid parameters",
+          "'expiresIn' must be a number of seconds",
+        );
+      }
+      const targetUrl = typeof params.url === "string" ? params.url : "";
+      if (!targetUrl) {
+        throw new HttpError(
+          400,
+          "Missing URL parameter",
+          "Please provide a 'url' parameter",
         );
-        const filepath = join(CONFIG.IMAGES_DIR, filename);
+      }
 
-        const shouldUseCache = cacheControl !== "refresh";
-        const cached = shouldUseCache && existsSync(filepath);
+      const urlCheck = isUrlSafe(targetUrl);
+      if (!urlCheck.safe) {
+        throw new HttpError(
+          403,
+          "Blocked URL",
+          urlCheck.reason || "URL is not allowed",
+          "BLOCKED_URL",
+        );
+      }
 
-        if (cacheControl === "only" && !cached) {
-          return Response.json(
-            { error: "Not cached", message: "Screenshot not in cache" },
-            { status: 404, headers: CORS_HEADERS },
+      // Query strings only carry scalars, so objects would be signed as
+      // "[object Object]"; lists are signed as repeated parameters
+      const signedParams: Record<
+        string,
+        SignedParamValue | SignedParamValue[]
+      > = {};
+      for (const [key, value] of Object.entries(params)) {
+        if (value === undefined || value === null) continue;
+        const items = Array.isArray(value) ? value : [value];
+        if (!items.every(isSignedParamValue)) {
+          throw new HttpError(
+            400,
+            "Invalid parameters",
+            `'${key}' must be a string, number, boolean or a list of them to be signed`,
           );
         }
+        signedParams[key] = value as SignedParamValue | SignedParamValue[];
+      }
 
-        let imageBuffer: Buffer;
-        let fileSize: number;
-        let metadata: any = null;
-        let s3Url: string | undefined;
-
-        if (cached) {
-          stats.cacheHits++;
-          imageBuffer = Buffer.from(await Bun.file(filepath).arrayBuffer());
-          fileSize = imageBuffer.length;
-        } else {
-          stats.cacheMisses++;
-
-          const result = await captureScreenshot(
-            targetUrl,
-            width,
-            height,
-            dark,
-            fullPage,
-            delay,
-            waitFor,
-            userAgent,
-          );
-          const processed = await processImage(
-            result.buffer,
-            format,
-            quality,
-            crop,
-          );
+      return Response.json(
+        createSignedUrl(
+          `${url.origin}/api/screenshot`,
+          signedParams,
+          CONFIG.URL_SIGNING_SECRET,
+          expiresIn,
+        ),
+        { headers: CORS_HEADERS },
+      );
+    } catch (error) {
+      return errorResponse(error, "Signing failed");
+    }
+  }
+
+  if (url.pathname === "/api/jobs") {
+    if (req.method !== "POST") {
+      return Response.json(
+        { error: "Method not allowed" },
+        { status: 405, headers: CORS_HEADERS },
+      );
+    }
 
-          imageBuffer = processed.buffer;
-          fileSize = processed.size;
-          metadata = extractMeta ? result.metadata : null;
+    try {
+      const apiKey = authorizeRequest(req, url, ip);
 
-          await Bun.write(filepath, imageBuffer);
+      const body = (await req.json()) as JobRequestBody;
+      const options = parseScreenshotOptions(body, "json");
+      await checkScreenshotOptions(options);
 
-          if (uploadToCloud && CONFIG.S3_ENABLED) {
-            s3Url = await uploadToS3(imageBuffer, filename, `image/${format}`);
-          }
+      if (body.callbackUrl) {
+        // Receivers could not tell our deliveries from forged ones
+        if (!CONFIG.WEBHOOK_SECRET) {
+          throw new HttpError(
+            501,
+            "Callbacks disabled",
+            "WEBHOOK_SECRET is not configured",
+          );
         }
 
-        const responseTime = Date.now() - requestStart;
-
-        if (outputFormat === "json") {
-          return Response.json(
-            {
-              success: true,
-              url: targetUrl,
-              filename,
-              localPath: `/images/${filename}`,
-              s3Url,
-              width,
-              height,
-              format,
-              fullPage,
-              dark,
-              quality,
-              size: fileSize,
-              sizeKB: (fileSize / 1024).toFixed(2),
-              cached,
-              responseTime,
-              metadata,
-            },
-            { headers: CORS_HEADERS },
+        const callbackCheck = await isUrlSafeResolved(body.callbackUrl);
+        if (!callbackCheck.safe) {
+          logBlockedUrl(body.callbackUrl, callbackCheck.reason, "callback");
+          throw new HttpError(
+            403,
+            "Blocked callback URL",
+            callbackCheck.reason || "URL is not allowed",
+            "BLOCKED_URL",
           );
         }
+      }
 
-        const contentType =
-          format === "webp"
-            ? "image/webp"
-            : format === "png"
-              ? "image/png"
-              : "image/jpeg";
+      const job = screenshotJobs.submit(
+        options,
+        getJobOwner(apiKey, ip),
+        body.callbackUrl,
+      );
+      return Response.json(
+        { ...job, statusUrl: `/api/jobs/${job.id}` },
+        { status: 202, headers: CORS_HEADERS },
+      );
+    } catch (error) {
+      return errorResponse(error, "Job submission failed");
+    }
+  }
 
-        return new Response(new Uint8Array(imageBuffer), {
-          headers: {
-            "Content-Type": contentType,
-            "Cache-Control": "public, max-age=86400",
-            "X-Cached": cached ? "true" : "false",
-            "X-Response-Time": `${responseTime}ms`,
-            ...CORS_HEADERS,
-          },
-        });
-      } catch (error) {
-        stats.errors++;
+  if (url.pathname === "/api/monitors") {
+    try {
+      const caller = authorizeMonitorRequest(req, url, ip);
+
+      if (req.method === "GET") {
         return Response.json(
-          {
-            error: "Screenshot failed",
-            message: error instanceof Error ? error.message : "Unknown error",
-          },
-          { status: 500, headers: CORS_HEADERS },
+          { monitors: monitorStore.list(caller.owner) },
+          { headers: CORS_HEADERS },
         );
       }
-    }
 
-    if (url.pathname === "/api/batch") {
       if (req.method !== "POST") {
         return Response.json(
           { error: "Method not allowed" },
@@ -697,155 +3728,358 @@ const server = Bun.serve({
         );
       }
 
-      try {
-        const body = (await req.json()) as BatchRequestBody;
-        const urls = body.urls || [];
-
-        if (!Array.isArray(urls) || urls.length === 0) {
-          return Response.json(
-            { error: "Invalid request", message: "Provide an array of URLs" },
-            { status: 400, headers: CORS_HEADERS },
-          );
-        }
-
-        if (urls.length > 10) {
-          return Response.json(
-            { error: "Too many URLs", message: "Maximum 10 URLs per batch" },
-            { status: 400, headers: CORS_HEADERS },
-          );
-        }
+      if (monitorStore.count() >= CONFIG.MAX_MONITORS) {
+        throw new HttpError(
+          409,
+          "Too many monitors",
+          `Maximum ${CONFIG.MAX_MONITORS} monitors`,
+        );
+      }
 
-        for (const testUrl of urls) {
-          const urlCheck = isUrlSafe(testUrl);
-          if (!urlCheck.safe) {
-            return Response.json(
-              {
-                error: "Blocked URL in batch",
-                message: `${testUrl}: ${urlCheck.reason}`,
-              },
-              { status: 403, headers: CORS_HEADERS },
-            );
-          }
-        }
+      const body = (await req.json()) as MonitorInput;
+      await checkMonitorInput(body);
+      const monitor = monitorStore.create(
+        {
+          ...body,
+          url: body.url!,
+          schedule: body.schedule!,
+        },
+        caller.id,
+      );
+      return Response.json(monitor, { status: 201, headers: CORS_HEADERS });
+    } catch (error) {
+      return errorResponse(error, "Monitor request failed");
+    }
+  }
 
-        const results = await Promise.allSettled(
-          urls.map(async (targetUrl: string) => {
-            const filename = getImageFilename(
-              targetUrl,
-              1200,
-              630,
-              false,
-              "webp",
-              false,
-            );
-            const filepath = join(CONFIG.IMAGES_DIR, filename);
-
-            if (existsSync(filepath)) {
-              return {
-                url: targetUrl,
-                filename,
-                cached: true,
-                localPath: `/images/${filename}`,
-              };
-            }
-
-            const result = await captureScreenshot(
-              targetUrl,
-              1200,
-              630,
-              false,
-              false,
-              0,
-            );
-            const processed = await processImage(result.buffer, "webp", 80);
+  if (url.pathname.startsWith("/api/monitors/")) {
+    const [id, action] = url.pathname.replace("/api/monitors/", "").split("/");
 
-            await Bun.write(filepath, processed.buffer);
+    try {
+      const caller = authorizeMonitorRequest(req, url, ip);
 
-            return {
-              url: targetUrl,
-              filename,
-              cached: false,
-              size: processed.size,
-              localPath: `/images/${filename}`,
-              metadata: result.metadata,
-            };
-          }),
-        );
+      // Monitors of other keys are reported as missing, not forbidden
+      const monitor = monitorStore.get(id, caller.owner);
+      if (!monitor || (action && action !== "history")) {
+        throw new HttpError(404, "Not found", "Monitor not found");
+      }
 
+      if (action === "history" && req.method === "GET") {
         return Response.json(
           {
-            success: true,
-            total: urls.length,
-            results: results.map((r, i) => {
-              if (r.status === "fulfilled") {
-                return { success: true, ...r.value };
-              } else {
-                return {
-                  success: false,
-                  url: urls[i],
-                  error: r.reason?.message || "Failed",
-                };
-              }
-            }),
+            id,
+            history: monitorHistoryView(id, url.searchParams),
           },
           { headers: CORS_HEADERS },
         );
-      } catch (error) {
-        return Response.json(
-          {
-            error: "Batch processing failed",
-            message: error instanceof Error ? error.message : "Unknown error",
-          },
-          { status: 500, headers: CORS_HEADERS },
-        );
       }
+
+      if (req.method === "GET" && !action) {
+        return Response.json(monitor, { headers: CORS_HEADERS });
+      }
+
+      if (req.method === "PATCH" && !action) {
+        const body = (await req.json()) as MonitorInput;
+        await checkMonitorInput(body, monitor);
+        return Response.json(monitorStore.update(id, body), {
+          headers: CORS_HEADERS,
+        });
+      }
+
+      if (req.method === "DELETE" && !action) {
+        await monitorStore.remove(id);
+        return new Response(null, { status: 204, headers: CORS_HEADERS });
+      }
+
+      return Response.json(
+        { error: "Method not allowed" },
+        { status: 405, headers: CORS_HEADERS },
+      );
+    } catch (error) {
+      return errorResponse(error, "Monitor request failed");
     }
+  }
 
-    if (url.pathname.startsWith("/images/")) {
-      const filename = url.pathname.replace("/images/", "");
-      const filepath = join(CONFIG.IMAGES_DIR, filename);
+  if (url.pathname.startsWith("/api/jobs/")) {
+    try {
+      // Polling is free, so waiting on a job cannot use up the quota
+      const apiKey = identifyRequest(req, url);
+      const job = screenshotJobs.get(
+        url.pathname.replace("/api/jobs/", ""),
+        getJobOwner(apiKey, ip),
+      );
 
-      if (existsSync(filepath)) {
-        const file = Bun.file(filepath);
-        const ext = filename.split(".").pop();
-        const contentType =
-          ext === "webp"
-            ? "image/webp"
-            : ext === "png"
-              ? "image/png"
-              : "image/jpeg";
+      if (!job) {
+        throw new HttpError(404, "Job not found", "Job not found");
+      }
 
-        return new Response(file, {
-          headers: {
-            "Content-Type": contentType,
-            "Cache-Control": "public, max-age=31536000",
-            ...CORS_HEADERS,
-          },
-        });
+      return Response.json(job, { headers: CORS_HEADERS });
+    } catch (error) {
+      return errorResponse(error, "Job lookup failed");
+    }
+  }
+
+  if (url.pathname === "/api/batch") {
+    if (req.method !== "POST") {
+      return Response.json(
+        { error: "Method not allowed" },
+        { status: 405, headers: CORS_HEADERS },
+      );
+    }
+
+    try {
+      const apiKey = identifyRequest(req, url);
+
+      const body = (await req.json()) as BatchRequestBody;
+      const items = parseBatchItems(body);
+      annotateRequest({ batchItems: items.length });
+      // One unit per item; a batch the quota cannot cover is refused whole
+      chargeRequest(apiKey, ip, items.length);
+      const concurrency = Math.min(
+        Math.max(
+          Math.floor(Number(body.concurrency) || CONFIG.BATCH_CONCURRENCY),
+          1,
+        ),
+        CONFIG.BATCH_CONCURRENCY,
+      );
+      const mode = getBatchStreamMode(body, req);
+
+      if (body.output === "zip" || url.searchParams.get("output") === "zip") {
+        return zipBatch(items, concurrency, req.signal);
       }
 
+      if (mode) {
+        return streamBatch(items, concurrency, mode, req.signal);
+      }
+
+      const results: BatchResult[] = new Array(items.length);
+      await runBatch(items, concurrency, req.signal, ({ result }) => {
+        results[result.index] = result;
+      });
+
+      const succeeded = results.filter((result) => result.success).length;
+      return Response.json(
+        {
+          success: true,
+          total: items.length,
+          succeeded,
+          failed: items.length - succeeded,
+          results,
+        },
+        { headers: CORS_HEADERS },
+      );
+    } catch (error) {
+      return errorResponse(error, "Batch processing failed");
+    }
+  }
+
+  if (url.pathname === "/api/archive") {
+    try {
+      authorizeRequest(req, url, ip);
+      return await archiveFiles(url.searchParams);
+    } catch (error) {
+      return errorResponse(error, "Archive failed");
+    }
+  }
+
+  if (url.pathname === "/api/cache") {
+    if (req.method !== "GET" && req.method !== "DELETE") {
       return Response.json(
-        { error: "Image not found" },
-        { status: 404, headers: CORS_HEADERS },
+        { error: "Method not allowed" },
+        { status: 405, headers: CORS_HEADERS },
       );
     }
 
+    try {
+      authorizeCacheAdmin(req, url, ip);
+      return req.method === "GET"
+        ? await listCache(url.searchParams)
+        : await deleteCache(url.searchParams);
+    } catch (error) {
+      return errorResponse(error, "Cache request failed");
+    }
+  }
+
+  if (url.pathname.startsWith("/images/")) {
+    const filename = url.pathname.replace("/images/", "");
+    const file =
+      filename &&
+      sanitizeFilename(filename) === filename &&
+      !isCaptureRecord(filename)
+        ? await storage.getStream(filename)
+        : null;
+
+    if (file) {
+      const ext = filename.split(".").pop() || "";
+
+      return new Response(file.body, {
+        headers: {
+          "Content-Type": getContentType(ext),
+          "Content-Length": String(file.size),
+          "Cache-Control": `public, max-age=${await getCacheMaxAge(filename, 31536000)}`,
+          ...CORS_HEADERS,
+        },
+      });
+    }
+
     return Response.json(
-      { error: "Not Found" },
+      { error: "Image not found" },
       { status: 404, headers: CORS_HEADERS },
     );
+  }
+
+  return Response.json(
+    { error: "Not Found" },
+    { status: 404, headers: CORS_HEADERS },
+  );
+}
+
+// Routes that capture pages, counted in /stats along with POST /api/jobs
+const CAPTURE_ROUTES = [
+  "/api/screenshot",
+  "/api/meta",
+  "/api/render",
+  "/api/batch",
+  "/api/diff",
+];
+
+const KNOWN_ROUTES = [
+  "/",
+  "/health",
+  "/stats",
+  "/metrics",
+  "/api/screenshot",
+  "/api/meta",
+  "/api/render",
+  "/api/batch",
+  "/api/archive",
+  "/api/cache",
+  "/api/jobs",
+  "/api/monitors",
+  "/api/sign",
+  "/api/diff",
+  "/api/devices",
+];
+
+// Route templates keep metric label cardinality bounded
+function getRouteLabel(pathname: string): string {
+  if (KNOWN_ROUTES.includes(pathname)) return pathname;
+  if (pathname.startsWith("/api/jobs/")) return "/api/jobs/:id";
+  if (pathname.startsWith("/api/monitors/")) {
+    return pathname.endsWith("/history")
+      ? "/api/monitors/:id/history"
+      : "/api/monitors/:id";
+  }
+  if (pathname.startsWith("/images/")) return "/images/:file";
+  return "other";
+}
+
+// Reuses an ID set by a proxy or client so logs can be correlated across
+// services; anything that does not look like an ID is replaced
+function getRequestId(req: Request): string {
+  const incoming = req.headers.get("X-Request-Id");
+  return incoming && /^[\w.:-]{1,128}$/.test(incoming)
+    ? incoming
+    : randomUUID();
+}
+
+const QUIET_ROUTES = ["/health", "/metrics"];
+
+function logRequest(
+  req: Request,
+  url: URL,
+  ip: string,
+  response: Response,
+  seconds: number,
+  log: RequestLog,
+): void {
+  const { requestId, timings, ...details } = log;
+  const fields = {
+    requestId,
+    method: req.method,
+    // Query strings can hold API keys and signatures, so only the path
+    path: url.pathname,
+    status: response.status,
+    ip,
+    ...details,
+    durationMs: Math.round(seconds * 1000),
+    timings,
+  };
+
+  if (response.status === 500 || response.status === 503) {
+    logger.error("request", fields);
+  } else if (response.status >= 500) {
+    // The target site failed, not this server
+    logger.warn("request", fields);
+  } else if (QUIET_ROUTES.includes(url.pathname)) {
+    // Health checks and scrapes would drown out real traffic
+    logger.debug("request", fields);
+  } else {
+    logger.info("request", fields);
+  }
+}
+
+function getResponseFormat(response: Response): string {
+  const type = response.headers.get("Content-Type") || "";
+  if (type.startsWith("image/")) return type.slice(6);
+  if (type === "application/pdf") return "pdf";
+  if (type.startsWith("application/json")) return "json";
+  return "other";
+}
+
+const server = Bun.serve({
+  port: CONFIG.PORT,
+  hostname: CONFIG.HOST,
+  development: false,
+  idleTimeout: 255,
+
+  async fetch(req) {
+    const url = new URL(req.url);
+    const ip = server.requestIP(req)?.address || "unknown";
+    const route = getRouteLabel(url.pathname);
+    const endRequest = httpDuration.startTimer({ route });
+    const log: RequestLog = { requestId: getRequestId(req), timings: {} };
+
+    const response = await requestContext.run(
+      log,
+      async (): Promise<Response> => {
+        try {
+          return await handleRequest(req, url, ip);
+        } catch (error) {
+          return errorResponse(error, "Internal Server Error");
+        }
+      },
+    );
+
+    const seconds = endRequest();
+    httpRequests.inc({
+      route,
+      method: req.method,
+      status: String(response.status),
+      format: getResponseFormat(response),
+    });
+    response.headers.set("X-Request-Id", log.requestId);
+    logRequest(req, url, ip, response, seconds, log);
+    return response;
   },
 
   error(error) {
+    logger.error("unhandled_error", { message: error.message });
     return Response.json(
-      { error: "Internal Server Error", message: error.message },
+      {
+        error: "Internal Server Error",
+        code: "INTERNAL_ERROR",
+        message: error.message,
+      },
       { status: 500 },
     );
   },
 });
 
 process.on("SIGINT", async () => {
-  if (browser) await browser.close();
+  keyStore.flush();
+  monitorStore.flush();
+  await pagePool.close();
   process.exit(0);
 });
 
@@ -853,23 +4087,35 @@ console.log(`
   http://${CONFIG.HOST}:${CONFIG.PORT}
 
 Features:
-  Multiple formats (webp, png, jpeg)
+  Multiple formats (webp, avif, png, jpeg, pdf)
   Full page screenshots
   Wait/Delay support
   Metadata extraction
-  Batch processing (up to 10 URLs)
+  Batch processing (up to ${CONFIG.MAX_BATCH_ITEMS} items, streamed)
+  Async jobs with signed webhooks
   Cache control (default, refresh, only)
   S3/R2 upload ${CONFIG.S3_ENABLED ? "ENABLED" : "❌"}
   Auto cleanup ${CONFIG.AUTO_CLEANUP_ENABLED ? "ENABLED" : "❌"}
   Usage stats
 
-Storage: ${CONFIG.IMAGES_DIR}
-Limits: ${CONFIG.MAX_REQUESTS_PER_IP} req/hour per IP
+Storage: ${storage.name === "local" ? CONFIG.IMAGES_DIR : storage.name}
+Limits: ${CONFIG.MAX_REQUESTS_PER_IP} req/hour per IP${CONFIG.REQUIRE_API_KEY ? " (API key required)" : ""}, ${CONFIG.MAX_CONCURRENT_PAGES} concurrent pages
 
 Endpoints:
   GET/POST /api/screenshot  → Generate screenshot
-  POST     /api/batch       → Batch processing (10 URLs max)
+  GET/POST /api/meta        → Page metadata without a screenshot
+  POST     /api/render      → Render HTML or a stored template
+  POST     /api/batch       → Batch processing (${CONFIG.MAX_BATCH_ITEMS} items max)
+  GET      /api/archive     → ZIP of stored images
+  GET/DEL  /api/cache       → List or invalidate cached captures
+  POST     /api/jobs        → Queue async screenshot job
+  GET      /api/jobs/:id    → Job status and result
+  GET/POST /api/monitors    → Scheduled captures with change detection
+  POST     /api/sign        → Create signed screenshot URL
+  POST     /api/diff        → Visual diff against a baseline
+  GET      /api/devices     → Device emulation presets
   GET      /images/:file    → Serve image
   GET      /stats           → Usage statistics
+  GET      /metrics         → Prometheus metrics
   GET      /health          → Health check
 `);
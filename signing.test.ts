@@ -0,0 +1,100 @@
+import { describe, expect, test } from "bun:test";
+import {
+  canonicalizeParams,
+  createSignedUrl,
+  signParams,
+  verifySignedParams,
+} from "./signing";
+
+const SECRET = "test-secret";
+const BASE = "https://shots.example.com/api/screenshot";
+
+function signedParams(
+  params: Parameters<typeof createSignedUrl>[1],
+  expiresIn?: number,
+) {
+  return new URL(createSignedUrl(BASE, params, SECRET, expiresIn).url)
+    .searchParams;
+}
+
+describe("canonicalizeParams", () => {
+  test("sorts by name, then value, and leaves out unsigned params", () => {
+    const params = new URLSearchParams(
+      "width=800&url=https://example.com&hideSelectors=.b&hideSelectors=.a&token=x&apiKey=y",
+    );
+    expect(canonicalizeParams(params)).toBe(
+      "hideSelectors=.a&hideSelectors=.b&url=https%3A%2F%2Fexample.com&width=800",
+    );
+  });
+
+  test("gives the same signature in any parameter order", () => {
+    expect(signParams(new URLSearchParams("a=1&b=2&c=3"), SECRET)).toBe(
+      signParams(new URLSearchParams("c=3&a=1&b=2"), SECRET),
+    );
+  });
+});
+
+describe("verifySignedParams", () => {
+  test("accepts an untouched signed URL", () => {
+    const params = signedParams({ url: "https://example.com", width: 800 });
+    expect(verifySignedParams(params, SECRET)).toEqual({ valid: true });
+  });
+
+  test("rejects a missing token or the wrong secret", () => {
+    const params = signedParams({ url: "https://example.com" });
+    expect(verifySignedParams(params, "other-secret").valid).toBe(false);
+    params.delete("token");
+    expect(verifySignedParams(params, SECRET)).toEqual({
+      valid: false,
+      reason: "Missing signature token",
+    });
+  });
+
+  test("rejects tampered params", () => {
+    const params = signedParams({ url: "https://example.com", width: 800 });
+    params.set("width", "3840");
+    expect(verifySignedParams(params, SECRET)).toEqual({
+      valid: false,
+      reason: "Invalid signature",
+    });
+  });
+
+  test("rejects extra params, except the unsigned ones", () => {
+    const params = signedParams({ url: "https://example.com" });
+    params.set("apiKey", "mk_live_123");
+    expect(verifySignedParams(params, SECRET).valid).toBe(true);
+    params.set("fullPage", "true");
+    expect(verifySignedParams(params, SECRET).valid).toBe(false);
+  });
+
+  test("rejects expired URLs and a moved expiry", () => {
+    const params = signedParams({ url: "https://example.com" }, 60);
+    expect(verifySignedParams(params, SECRET).valid).toBe(true);
+
+    params.set("expires", String(Math.floor(Date.now() / 1000) + 3600));
+    expect(verifySignedParams(params, SECRET).reason).toBe("Invalid signature");
+
+    const expired = new URLSearchParams({
+      url: "https://example.com",
+      expires: String(Math.floor(Date.now() / 1000) - 1),
+    });
+    expired.set("token", signParams(expired, SECRET));
+    expect(verifySignedParams(expired, SECRET)).toEqual({
+      valid: false,
+      reason: "Signed URL has expired",
+    });
+  });
+});
+
+describe("createSignedUrl", () => {
+  test("signs lists as repeated params and drops unsigned ones", () => {
+    const params = signedParams({
+      url: "https://example.com",
+      hideSelectors: [".ad", ".banner"],
+      token: "ignored",
+    });
+    expect(params.getAll("hideSelectors")).toEqual([".ad", ".banner"]);
+    expect(params.get("token")).not.toBe("ignored");
+    expect(verifySignedParams(params, SECRET).valid).toBe(true);
+  });
+});
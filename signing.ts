@@ -0,0 +1,78 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+const UNSIGNED_PARAMS = ["token", "apiKey"];
+
+export type SignedParamValue = string | number | boolean;
+
+export function isSignedParamValue(value: unknown): value is SignedParamValue {
+  return ["string", "number", "boolean"].includes(typeof value);
+}
+
+export function canonicalizeParams(params: URLSearchParams): string {
+  return [...params.entries()]
+    .filter(([key]) => !UNSIGNED_PARAMS.includes(key))
+    .sort(([a, aValue], [b, bValue]) =>
+      a === b ? aValue.localeCompare(bValue) : a < b ? -1 : 1,
+    )
+    .map(
+      ([key, value]) =>
+        `${encodeURIComponent(key)}=${encodeURIComponent(value)}`,
+    )
+    .join("&");
+}
+
+export function signParams(params: URLSearchParams, secret: string): string {
+  return createHmac("sha256", secret)
+    .update(canonicalizeParams(params))
+    .digest("base64url");
+}
+
+export function verifySignedParams(
+  params: URLSearchParams,
+  secret: string,
+): { valid: boolean; reason?: string } {
+  const token = params.get("token");
+  if (!token) {
+    return { valid: false, reason: "Missing signature token" };
+  }
+
+  const expected = Buffer.from(signParams(params, secret));
+  const actual = Buffer.from(token);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return { valid: false, reason: "Invalid signature" };
+  }
+
+  const expires = params.get("expires");
+  if (expires && Date.now() / 1000 > parseInt(expires)) {
+    return { valid: false, reason: "Signed URL has expired" };
+  }
+
+  return { valid: true };
+}
+
+export function createSignedUrl(
+  baseUrl: string,
+  params: Record<string, SignedParamValue | SignedParamValue[]>,
+  secret: string,
+  expiresIn?: number,
+): { url: string; token: string; expires: number | null } {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (UNSIGNED_PARAMS.includes(key)) continue;
+    // Lists become repeated parameters, as GET requests send them
+    for (const item of Array.isArray(value) ? value : [value]) {
+      search.append(key, String(item));
+    }
+  }
+
+  let expires: number | null = null;
+  if (expiresIn && expiresIn > 0) {
+    expires = Math.floor(Date.now() / 1000) + expiresIn;
+    search.set("expires", String(expires));
+  }
+
+  const token = signParams(search, secret);
+  search.set("token", token);
+
+  return { url: `${baseUrl}?${search.toString()}`, token, expires };
+}
@@ -0,0 +1,117 @@
+import { S3Client } from "@aws-sdk/client-s3";
+import { afterAll, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  createLocalStorage,
+  createMemoryStorage,
+  createS3Storage,
+  type Storage,
+} from "./storage";
+
+// Every backend has to behave the same way, so they all run one suite
+function describeStorage(name: string, setup: () => Storage) {
+  describe(name, () => {
+    let storage: Storage;
+
+    beforeEach(() => {
+      storage = setup();
+    });
+
+    test("put then get returns the same bytes", async () => {
+      const data = Buffer.from("hello");
+      await storage.put("a.webp", data, "image/webp");
+      expect(await storage.get("a.webp")).toEqual(data);
+    });
+
+    test("getStream streams the stored bytes", async () => {
+      const data = Buffer.from("streamed");
+      await storage.put("s.webp", data, "image/webp");
+      const stream = await storage.getStream("s.webp");
+      expect(stream?.size).toBe(data.length);
+      expect(
+        Buffer.from(await new Response(stream!.body).arrayBuffer()),
+      ).toEqual(data);
+    });
+
+    test("get, stat and exists report missing keys", async () => {
+      expect(await storage.get("missing.webp")).toBeNull();
+      expect(await storage.getStream("missing.webp")).toBeNull();
+      expect(await storage.stat("missing.webp")).toBeNull();
+      expect(await storage.exists("missing.webp")).toBe(false);
+    });
+
+    test("stat reports size and modification time", async () => {
+      const before = Date.now() - 1000;
+      await storage.put("b.webp", Buffer.from("12345"), "image/webp");
+      const object = await storage.stat("b.webp");
+      expect(object?.key).toBe("b.webp");
+      expect(object?.size).toBe(5);
+      expect(object!.lastModified).toBeGreaterThanOrEqual(before);
+      expect(await storage.exists("b.webp")).toBe(true);
+    });
+
+    test("list filters by prefix", async () => {
+      await storage.put("x-1.webp", Buffer.from("1"), "image/webp");
+      await storage.put("x-2.webp", Buffer.from("2"), "image/webp");
+      await storage.put("y-1.webp", Buffer.from("3"), "image/webp");
+      const keys = (await storage.list("x-")).map((object) => object.key);
+      expect(keys.sort()).toEqual(["x-1.webp", "x-2.webp"]);
+    });
+
+    test("delete removes the key and ignores missing keys", async () => {
+      await storage.put("c.webp", Buffer.from("c"), "image/webp");
+      await storage.delete("c.webp");
+      expect(await storage.exists("c.webp")).toBe(false);
+      await storage.delete("c.webp");
+    });
+  });
+}
+
+describeStorage("memory storage", () => createMemoryStorage());
+
+const dirs: string[] = [];
+afterAll(() => {
+  for (const dir of dirs) rmSync(dir, { recursive: true, force: true });
+});
+
+describeStorage("local storage", () => {
+  const dir = mkdtempSync(join(tmpdir(), "storage-test-"));
+  dirs.push(dir);
+  return createLocalStorage(dir);
+});
+
+describe("local storage keys", () => {
+  test("rejects keys that leave the directory", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "storage-test-"));
+    dirs.push(dir);
+    const storage = createLocalStorage(dir);
+    await expect(storage.get("../outside.webp")).rejects.toThrow(
+      "Invalid storage key",
+    );
+  });
+});
+
+// Needs a real bucket, so it only runs when S3_TEST_BUCKET is set; the other
+// S3_* variables are read the same way the server reads them
+const s3Bucket = process.env.S3_TEST_BUCKET;
+
+describe.skipIf(!s3Bucket)("s3", () => {
+  describeStorage("s3 storage", () =>
+    createS3Storage({
+      client: new S3Client({
+        region: process.env.S3_REGION || "auto",
+        endpoint: process.env.S3_ENDPOINT || undefined,
+        forcePathStyle: process.env.S3_FORCE_PATH_STYLE === "true",
+        credentials: {
+          accessKeyId: process.env.S3_ACCESS_KEY || "",
+          secretAccessKey: process.env.S3_SECRET_KEY || "",
+        },
+      }),
+      bucket: s3Bucket!,
+      // A fresh prefix per test keeps runs from seeing each other's objects
+      prefix: `storage-test/${crypto.randomUUID()}/`,
+    }),
+  );
+});
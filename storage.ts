@@ -0,0 +1,287 @@
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  S3Client,
+} from "@aws-sdk/client-s3";
+import { existsSync, mkdirSync } from "fs";
+import { readdir, stat, unlink } from "fs/promises";
+import { join, resolve, sep } from "path";
+
+export interface StoredObject {
+  key: string;
+  size: number;
+  lastModified: number;
+  contentType?: string;
+}
+
+// Lets large objects be served without reading them into memory
+export interface StoredStream {
+  body: ReadableStream<Uint8Array>;
+  size: number;
+}
+
+export interface Storage {
+  name: string;
+  get(key: string): Promise<Buffer | null>;
+  getStream(key: string): Promise<StoredStream | null>;
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  exists(key: string): Promise<boolean>;
+  delete(key: string): Promise<void>;
+  list(prefix?: string): Promise<StoredObject[]>;
+  stat(key: string): Promise<StoredObject | null>;
+}
+
+function isNotFound(error: unknown): boolean {
+  const err = error as {
+    name?: string;
+    code?: string;
+    $metadata?: { httpStatusCode?: number };
+  };
+  return (
+    err?.name === "NoSuchKey" ||
+    err?.name === "NotFound" ||
+    err?.code === "ENOENT" ||
+    err?.$metadata?.httpStatusCode === 404
+  );
+}
+
+export function createLocalStorage(dir: string): Storage {
+  const root = resolve(dir);
+  if (!existsSync(root)) {
+    mkdirSync(root, { recursive: true });
+  }
+
+  function pathFor(key: string): string {
+    const path = resolve(join(root, key));
+    if (!path.startsWith(root + sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return path;
+  }
+
+  async function statKey(key: string): Promise<StoredObject | null> {
+    try {
+      const info = await stat(pathFor(key));
+      if (!info.isFile()) return null;
+      return { key, size: info.size, lastModified: info.mtimeMs };
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  return {
+    name: "local",
+
+    async get(key) {
+      const file = Bun.file(pathFor(key));
+      if (!(await file.exists())) return null;
+      return Buffer.from(await file.arrayBuffer());
+    },
+
+    async getStream(key) {
+      const file = Bun.file(pathFor(key));
+      if (!(await file.exists())) return null;
+      return { body: file.stream(), size: file.size };
+    },
+
+    async put(key, data) {
+      await Bun.write(pathFor(key), data);
+    },
+
+    async exists(key) {
+      return (await statKey(key)) !== null;
+    },
+
+    async delete(key) {
+      try {
+        await unlink(pathFor(key));
+      } catch (error) {
+        if (!isNotFound(error)) throw error;
+      }
+    },
+
+    async list(prefix = "") {
+      const names = await readdir(root);
+      const objects: StoredObject[] = [];
+      for (const name of names) {
+        if (!name.startsWith(prefix)) continue;
+        const object = await statKey(name);
+        if (object) objects.push(object);
+      }
+      return objects;
+    },
+
+    stat: statKey,
+  };
+}
+
+export function createMemoryStorage(): Storage {
+  const objects = new Map<
+    string,
+    { data: Buffer; contentType: string; lastModified: number }
+  >();
+
+  function toStored(key: string): StoredObject | null {
+    const object = objects.get(key);
+    if (!object) return null;
+    return {
+      key,
+      size: object.data.length,
+      lastModified: object.lastModified,
+      contentType: object.contentType,
+    };
+  }
+
+  return {
+    name: "memory",
+
+    async get(key) {
+      return objects.get(key)?.data ?? null;
+    },
+
+    async getStream(key) {
+      const data = objects.get(key)?.data;
+      if (!data) return null;
+      return {
+        body: new Blob([new Uint8Array(data)]).stream(),
+        size: data.length,
+      };
+    },
+
+    async put(key, data, contentType) {
+      objects.set(key, { data, contentType, lastModified: Date.now() });
+    },
+
+    async exists(key) {
+      return objects.has(key);
+    },
+
+    async delete(key) {
+      objects.delete(key);
+    },
+
+    async list(prefix = "") {
+      return [...objects.keys()]
+        .filter((key) => key.startsWith(prefix))
+        .map((key) => toStored(key)!);
+    },
+
+    async stat(key) {
+      return toStored(key);
+    },
+  };
+}
+
+export interface S3StorageOptions {
+  client: S3Client;
+  bucket: string;
+  prefix?: string;
+}
+
+export function createS3Storage(options: S3StorageOptions): Storage {
+  const { client, bucket } = options;
+  const prefix = options.prefix || "";
+
+  return {
+    name: "s3",
+
+    async get(key) {
+      try {
+        const response = await client.send(
+          new GetObjectCommand({ Bucket: bucket, Key: prefix + key }),
+        );
+        if (!response.Body) return null;
+        return Buffer.from(await response.Body.transformToByteArray());
+      } catch (error) {
+        if (isNotFound(error)) return null;
+        throw error;
+      }
+    },
+
+    async getStream(key) {
+      try {
+        const response = await client.send(
+          new GetObjectCommand({ Bucket: bucket, Key: prefix + key }),
+        );
+        if (!response.Body) return null;
+        return {
+          body: response.Body.transformToWebStream() as ReadableStream<Uint8Array>,
+          size: response.ContentLength || 0,
+        };
+      } catch (error) {
+        if (isNotFound(error)) return null;
+        throw error;
+      }
+    },
+
+    async put(key, data, contentType) {
+      await client.send(
+        new PutObjectCommand({
+          Bucket: bucket,
+          Key: prefix + key,
+          Body: new Uint8Array(data),
+          ContentType: contentType,
+        }),
+      );
+    },
+
+    async exists(key) {
+      return (await this.stat(key)) !== null;
+    },
+
+    async delete(key) {
+      await client.send(
+        new DeleteObjectCommand({ Bucket: bucket, Key: prefix + key }),
+      );
+    },
+
+    async list(keyPrefix = "") {
+      const objects: StoredObject[] = [];
+      let continuationToken: string | undefined;
+
+      do {
+        const response = await client.send(
+          new ListObjectsV2Command({
+            Bucket: bucket,
+            Prefix: prefix + keyPrefix,
+            ContinuationToken: continuationToken,
+          }),
+        );
+        for (const item of response.Contents || []) {
+          if (!item.Key) continue;
+          objects.push({
+            key: item.Key.slice(prefix.length),
+            size: item.Size || 0,
+            lastModified: item.LastModified?.getTime() || 0,
+          });
+        }
+        continuationToken = response.IsTruncated
+          ? response.NextContinuationToken
+          : undefined;
+      } while (continuationToken);
+
+      return objects;
+    },
+
+    async stat(key) {
+      try {
+        const response = await client.send(
+          new HeadObjectCommand({ Bucket: bucket, Key: prefix + key }),
+        );
+        return {
+          key,
+          size: response.ContentLength || 0,
+          lastModified: response.LastModified?.getTime() || 0,
+          contentType: response.ContentType,
+        };
+      } catch (error) {
+        if (isNotFound(error)) return null;
+        throw error;
+      }
+    },
+  };
+}
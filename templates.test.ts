@@ -0,0 +1,68 @@
+import { describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  createTemplateStore,
+  getRenderKey,
+  isValidTemplateName,
+  renderTemplate,
+} from "./templates";
+
+describe("renderTemplate", () => {
+  test("escapes HTML in values", () => {
+    expect(
+      renderTemplate("<h1>{{title}}</h1>", {
+        title: `<script>alert("x")</script> & 'y'`,
+      }),
+    ).toBe(
+      "<h1>&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt; &amp; &#39;y&#39;</h1>",
+    );
+  });
+
+  test("renders numbers and booleans, and blanks missing variables", () => {
+    expect(
+      renderTemplate("{{ count }}/{{ok}}/{{missing}}", { count: 3, ok: false }),
+    ).toBe("3/false/");
+  });
+
+  test("ignores inherited properties", () => {
+    expect(renderTemplate("{{constructor}}{{toString}}", {})).toBe("");
+  });
+});
+
+describe("getRenderKey", () => {
+  test("does not depend on variable order", () => {
+    expect(getRenderKey("x", { a: 1, b: "2" })).toBe(
+      getRenderKey("x", { b: "2", a: 1 }),
+    );
+  });
+
+  test("changes with the source and the values", () => {
+    const key = getRenderKey("x", { a: 1 });
+    expect(getRenderKey("y", { a: 1 })).not.toBe(key);
+    expect(getRenderKey("x", { a: "1" })).not.toBe(key);
+  });
+});
+
+describe("template names", () => {
+  test("rejects names that could leave the directory", () => {
+    expect(isValidTemplateName("og-card")).toBe(true);
+    for (const name of ["", "../secret", "a/b", ".hidden", "-flag", "a.html"]) {
+      expect(isValidTemplateName(name)).toBe(false);
+    }
+  });
+
+  test("the store only loads valid names that exist", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "templates-test-"));
+    try {
+      writeFileSync(join(dir, "card.html"), "<p>{{title}}</p>");
+      const store = createTemplateStore({ dir });
+      expect(await store.load("card")).toBe("<p>{{title}}</p>");
+      expect(await store.load("missing")).toBeNull();
+      expect(await store.load("../card")).toBeNull();
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
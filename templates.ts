@@ -0,0 +1,66 @@
+import { createHash } from "crypto";
+import { readFile } from "fs/promises";
+import { join } from "path";
+
+export type TemplateVariables = Record<string, string | number | boolean>;
+
+// Names map straight to files, so anything that could leave the directory
+// is rejected rather than cleaned up
+const TEMPLATE_NAME = /^[a-zA-Z0-9][\w-]{0,63}$/;
+
+const PLACEHOLDER = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+const HTML_ESCAPES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
+
+export function isValidTemplateName(name: string): boolean {
+  return TEMPLATE_NAME.test(name);
+}
+
+// Values are HTML-escaped, so variables can carry user input without
+// injecting markup; missing variables render as empty strings
+export function renderTemplate(
+  source: string,
+  variables: TemplateVariables,
+): string {
+  return source.replace(PLACEHOLDER, (_, name: string) =>
+    Object.hasOwn(variables, name) ? escapeHtml(String(variables[name])) : "",
+  );
+}
+
+// Same source and variables always give the same key, whatever order the
+// variables were sent in
+export function getRenderKey(
+  source: string,
+  variables: TemplateVariables,
+): string {
+  const sorted = Object.keys(variables)
+    .sort()
+    .map((name) => [name, variables[name]]);
+  return createHash("sha256")
+    .update(JSON.stringify([source, sorted]))
+    .digest("hex");
+}
+
+export function createTemplateStore(options: { dir: string }) {
+  // Templates are read on every request so edits apply without a restart
+  async function load(name: string): Promise<string | null> {
+    if (!isValidTemplateName(name)) return null;
+    try {
+      return await readFile(join(options.dir, `${name}.html`), "utf8");
+    } catch {
+      return null;
+    }
+  }
+
+  return { load };
+}
@@ -0,0 +1,94 @@
+import { describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { crc32 } from "zlib";
+import { createZipWriter } from "./zip";
+
+function buildZip(files: [string, Uint8Array][]): Buffer {
+  const chunks: Uint8Array[] = [];
+  const zip = createZipWriter((chunk) => chunks.push(chunk));
+  for (const [name, data] of files) zip.addFile(name, data);
+  zip.finish();
+  return Buffer.concat(chunks);
+}
+
+// Reads the archive back through its central directory, the way unzip
+// tools do, and returns each entry with the data its local header points at
+function readZip(zip: Buffer) {
+  const end = zip.length - 22;
+  expect(zip.readUInt32LE(end)).toBe(0x06054b50);
+  const count = zip.readUInt16LE(end + 10);
+  let position = zip.readUInt32LE(end + 16);
+
+  const entries = [];
+  for (let i = 0; i < count; i++) {
+    expect(zip.readUInt32LE(position)).toBe(0x02014b50);
+    const crc = zip.readUInt32LE(position + 16);
+    const size = zip.readUInt32LE(position + 24);
+    const nameLength = zip.readUInt16LE(position + 28);
+    const offset = zip.readUInt32LE(position + 42);
+    const name = zip.toString(
+      "utf8",
+      position + 46,
+      position + 46 + nameLength,
+    );
+
+    expect(zip.readUInt32LE(offset)).toBe(0x04034b50);
+    const dataStart = offset + 30 + zip.readUInt16LE(offset + 26);
+    entries.push({
+      name,
+      crc,
+      size,
+      data: zip.subarray(dataStart, dataStart + size),
+    });
+    position += 46 + nameLength;
+  }
+  return entries;
+}
+
+const files: [string, Uint8Array][] = [
+  ["001-example.com.webp", new Uint8Array([1, 2, 3, 4, 5])],
+  ["002-café.png", new TextEncoder().encode("second file")],
+  ["manifest.json", new Uint8Array(0)],
+];
+
+describe("createZipWriter", () => {
+  test("round-trips names, sizes, CRC-32 and contents", () => {
+    const entries = readZip(buildZip(files));
+
+    expect(entries.map((entry) => entry.name)).toEqual(
+      files.map(([name]) => name),
+    );
+    entries.forEach((entry, i) => {
+      const data = files[i][1];
+      expect(entry.size).toBe(data.length);
+      expect(entry.crc).toBe(crc32(data));
+      expect(Buffer.from(entry.data)).toEqual(Buffer.from(data));
+    });
+  });
+
+  test("rejects duplicate names", () => {
+    const zip = createZipWriter(() => {});
+    zip.addFile("a.webp", new Uint8Array([1]));
+    expect(() => zip.addFile("a.webp", new Uint8Array([2]))).toThrow(
+      "Duplicate ZIP entry",
+    );
+  });
+
+  test.skipIf(!Bun.which("unzip"))("is accepted by unzip", () => {
+    const dir = mkdtempSync(join(tmpdir(), "zip-test-"));
+    try {
+      const file = join(dir, "archive.zip");
+      writeFileSync(file, buildZip(files));
+
+      const check = Bun.spawnSync(["unzip", "-t", file]);
+      expect(check.exitCode).toBe(0);
+
+      const content = Bun.spawnSync(["unzip", "-p", file, files[0][0]]);
+      expect(Buffer.from(content.stdout)).toEqual(Buffer.from(files[0][1]));
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
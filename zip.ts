@@ -0,0 +1,138 @@
+// Minimal ZIP writer. Entries are stored uncompressed: screenshots are
+// already compressed, so deflating them again costs CPU for little gain.
+// Each entry is written as soon as it is added, so archives stream.
+
+const MAX_ENTRIES = 0xffff;
+const MAX_OFFSET = 0xffffffff;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time:
+      (date.getHours() << 11) |
+      (date.getMinutes() << 5) |
+      Math.floor(date.getSeconds() / 2),
+    date:
+      ((Math.max(date.getFullYear(), 1980) - 1980) << 9) |
+      ((date.getMonth() + 1) << 5) |
+      date.getDate(),
+  };
+}
+
+interface CentralEntry {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+  time: number;
+  date: number;
+}
+
+export function createZipWriter(write: (chunk: Uint8Array) => void) {
+  const encoder = new TextEncoder();
+  const entries: CentralEntry[] = [];
+  const names = new Set<string>();
+  let offset = 0;
+
+  function emit(chunk: Uint8Array) {
+    write(chunk);
+    offset += chunk.length;
+  }
+
+  function addFile(name: string, data: Uint8Array, modified = new Date()) {
+    if (names.has(name)) {
+      throw new Error(`Duplicate ZIP entry '${name}'`);
+    }
+    if (
+      entries.length >= MAX_ENTRIES ||
+      offset + data.length + 30 + name.length * 3 > MAX_OFFSET
+    ) {
+      throw new Error("Archive is too large");
+    }
+    names.add(name);
+
+    const encodedName = encoder.encode(name);
+    const crc = crc32(data);
+    const { time, date } = dosDateTime(modified);
+
+    const header = new Uint8Array(30 + encodedName.length);
+    const view = new DataView(header.buffer);
+    view.setUint32(0, 0x04034b50, true);
+    view.setUint16(4, 20, true); // version needed
+    view.setUint16(6, 0x0800, true); // UTF-8 names
+    view.setUint16(8, 0, true); // stored
+    view.setUint16(10, time, true);
+    view.setUint16(12, date, true);
+    view.setUint32(14, crc, true);
+    view.setUint32(18, data.length, true);
+    view.setUint32(22, data.length, true);
+    view.setUint16(26, encodedName.length, true);
+    view.setUint16(28, 0, true);
+    header.set(encodedName, 30);
+
+    entries.push({
+      name: encodedName,
+      crc,
+      size: data.length,
+      offset,
+      time,
+      date,
+    });
+    emit(header);
+    emit(data);
+  }
+
+  // Writes the central directory; no entries can be added afterwards
+  function finish() {
+    const start = offset;
+
+    for (const entry of entries) {
+      const record = new Uint8Array(46 + entry.name.length);
+      const view = new DataView(record.buffer);
+      view.setUint32(0, 0x02014b50, true);
+      view.setUint16(4, 20, true); // version made by
+      view.setUint16(6, 20, true); // version needed
+      view.setUint16(8, 0x0800, true);
+      view.setUint16(10, 0, true);
+      view.setUint16(12, entry.time, true);
+      view.setUint16(14, entry.date, true);
+      view.setUint32(16, entry.crc, true);
+      view.setUint32(20, entry.size, true);
+      view.setUint32(24, entry.size, true);
+      view.setUint16(28, entry.name.length, true);
+      view.setUint32(42, entry.offset, true);
+      record.set(entry.name, 46);
+      emit(record);
+    }
+
+    const end = new Uint8Array(22);
+    const view = new DataView(end.buffer);
+    view.setUint32(0, 0x06054b50, true);
+    view.setUint16(8, entries.length, true);
+    view.setUint16(10, entries.length, true);
+    view.setUint32(12, offset - start, true);
+    view.setUint32(16, start, true);
+    emit(end);
+  }
+
+  return { addFile, finish };
+}